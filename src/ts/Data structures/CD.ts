@@ -1,9 +1,26 @@
 import { GraphBase, GraphNodeBase } from "./graphs";
 import * as MathJS from "mathjs";
+import { Wythoff as CNWythoff } from "./Construction/Node";
+import type { PolytopeC } from "../polytopes/types";
+import {
+  generatingPoint,
+  mirrorNormals,
+  orbit,
+  snub,
+  wythoff,
+} from "../polytopes/classes/Wythoff";
+import * as Message from "../Translation/Basic/Message";
 
 /** Maximum length allowed for a CD. */
 const MAX_LEN = 100;
 
+/** The number of characters shown at each side of a parsing error. */
+const SNIPPET_RADIUS = 4;
+
+/** The maximum number of steps [[`CDGraph.canonical`]] takes when searching
+ * for the canonical form of each component. */
+const MAX_CANONICAL_STEPS = 100000;
+
 /** Matches a positive integer. */
 const numberRegex = /([1-9][0-9]*)/;
 
@@ -14,7 +31,7 @@ const fractionRegex = new RegExp(
 
 /** Auxiliary regex for [[`nodeLabels`]]. */
 const nodeLabels_ = new RegExp(
-  "([a-zA-Zß]|" + fractionRegex.source + "|" + numberRegex.source + ")"
+  "([a-zA-Zßβ]|" + fractionRegex.source + "|" + numberRegex.source + ")"
 );
 
 /** Matches a valid node label. */
@@ -44,6 +61,228 @@ const virtualNodesNumber = new RegExp(
   "\\*-?[1-9]|\\*\\(-?" + numberRegex.source + "\\)"
 );
 
+/** Matches the node labels of a laced diagram, with one letter per layer. */
+const layeredNodeLabels = /[a-zA-Zßβ]+/;
+
+/** Matches the lacing at the end of a diagram, as in `xo3ox&#x`. The first
+ * group marks zero height, the second is the label of the lacing edges, and
+ * the third marks a lace tower. */
+const lacingRegex = /&#(z?)([a-zA-Zßβ]?)(t?)$/;
+
+/**
+ * Describes how the layers of a lace prism, lace tower or lace simplex are
+ * joined together.
+ */
+export interface Lacing {
+  /** The number of layers, that is, the number of letters in each node. */
+  layers: number;
+
+  /** The label of the lacing edges. */
+  label: string;
+
+  /** Whether only consecutive layers are laced, as in a lace tower. Otherwise,
+   * every pair of layers is laced, as in a lace prism or lace simplex. */
+  tower: boolean;
+
+  /** Whether the layers lie in the same hyperplane. */
+  zeroHeight: boolean;
+}
+
+/** The geometries a Coxeter diagram can describe. */
+export enum CDGeometry {
+  /** The Schläfli matrix is positive definite, and the group is finite. */
+  Spherical,
+
+  /** The Schläfli matrix is positive semidefinite but singular. */
+  Euclidean,
+
+  /** The Schläfli matrix has some negative eigenvalue. */
+  Hyperbolic,
+}
+
+/** The type of a connected component of a Coxeter diagram, as returned by
+ * [[`CDGraph.classify`]]. */
+export interface CDComponentType {
+  /** The geometry the component describes. */
+  geometry: CDGeometry;
+
+  /** The name of the type, such as `"A3"`, `"I2(5)"`, `"affine"` or
+   * `"hyperbolic"`. */
+  name: string;
+
+  /** The indices of the nodes in the component. */
+  nodes: number[];
+
+  /** The order of the symmetry group of the component, or `Infinity` if it
+   * isn't finite. */
+  order: number;
+}
+
+/** The precision with which eigenvalues are compared to zero. */
+const EIGENVALUE_PRECISION = 1e-9;
+
+/**
+ * Calculates the eigenvalues of a symmetric matrix, via the
+ * [[https://en.wikipedia.org/wiki/Jacobi_eigenvalue_algorithm|Jacobi
+ * eigenvalue algorithm]].
+ *
+ * @param matrix The symmetric matrix.
+ * @returns The eigenvalues of the matrix, in increasing order.
+ */
+const eigenvalues = function (matrix: number[][]): number[] {
+  const n = matrix.length;
+  const a = matrix.map((row) => row.slice());
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let i = 0; i < n; i++)
+      for (let j = i + 1; j < n; j++) off += a[i][j] * a[i][j];
+
+    if (off < 1e-24) break;
+
+    // Zeroes out every off-diagonal entry by means of a rotation.
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-15) continue;
+
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t =
+          Math.sign(theta || 1) /
+          (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1),
+          s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p],
+            akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k],
+            aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+      }
+    }
+  }
+
+  return a.map((row, i) => row[i]).sort((x, y) => x - y);
+};
+
+/**
+ * Calculates the factorial of a number.
+ *
+ * @param n The number.
+ * @returns The factorial of the number.
+ */
+const factorial = function (n: number): number {
+  let res = 1;
+  for (let i = 2; i <= n; i++) res *= i;
+  return res;
+};
+
+/**
+ * Gets the name and order of a dihedral group.
+ *
+ * @param p Half of the order of the group.
+ * @returns The name and order of the group.
+ */
+const dihedralType = function (p: number): [string, number] {
+  if (p === 3) return ["A2", 6];
+  if (p === 4) return ["B2", 8];
+  return ["I2(" + p + ")", 2 * p];
+};
+
+/**
+ * Gets the names and orders of the finite irreducible Coxeter groups of a
+ * given rank, other than the dihedral ones.
+ *
+ * @param n The rank of the groups.
+ * @returns The names and orders of the groups.
+ */
+const sphericalTypes = function (n: number): [string, number][] {
+  const res: [string, number][] = [["A" + n, factorial(n + 1)]];
+
+  if (n >= 2) res.push(["B" + n, 2 ** n * factorial(n)]);
+  if (n >= 4) res.push(["D" + n, 2 ** (n - 1) * factorial(n)]);
+  if (n === 3) res.push(["H3", 120]);
+  if (n === 4) res.push(["F4", 1152], ["H4", 14400]);
+  if (n === 6) res.push(["E6", 51840]);
+  if (n === 7) res.push(["E7", 2903040]);
+  if (n === 8) res.push(["E8", 696729600]);
+
+  return res;
+};
+
+/** The kinds of tokens the parser of a CD can expect. */
+export enum CDToken {
+  /** A node label, such as `x` or `(5/2)`. */
+  Node,
+
+  /** An edge label, such as `3` or `5/2`. */
+  Edge,
+
+  /** A virtual node, such as `*a` or `*-2`. */
+  VirtualNode,
+
+  /** The lacing at the end of a laced diagram, such as `&#xt`. */
+  Lacing,
+
+  /** The end of the diagram. */
+  End,
+}
+
+/**
+ * An error found while parsing a CD. Stores where the error happened, so that
+ * it can be pointed out to the user.
+ *
+ * @category Data structures
+ */
+export class CDParseError extends Error {
+  /** The error code, which determines the message of the error. */
+  code: string;
+
+  /** The index of the offending character in the diagram. */
+  index: number;
+
+  /** The kind of token the parser expected. */
+  expected: CDToken;
+
+  /** The part of the diagram around the offending character. */
+  snippet: string;
+
+  /**
+   * Constructor for the `CDParseError` class.
+   *
+   * @param diagram The diagram where the error was found.
+   * @param code The error code.
+   * @param expected The kind of token the parser expected.
+   * @param index The index of the offending character.
+   */
+  constructor(diagram: string, code: string, expected: CDToken, index: number) {
+    const snippet = diagram.substring(
+      index - SNIPPET_RADIUS,
+      index + SNIPPET_RADIUS + 1
+    );
+
+    super(
+      Message.get("error/cd/" + code, {
+        arg0: (index + 1).toString(),
+        arg1: snippet,
+      })
+    );
+
+    this.name = "CDParseError";
+    this.code = code;
+    this.index = index;
+    this.expected = expected;
+    this.snippet = snippet;
+  }
+}
+
 /**
  * Represents a [[https://en.wikipedia.org/wiki/Coxeter–Dynkin_diagram|Coxeter
  * Diagram]], and contains the necessary methods to parse it.
@@ -59,17 +298,66 @@ export default class CD {
   /** The position at which the [[`diagram`]] is being read. */
   pos: number;
 
+  /** The position at which the lacing starts, or the length of the
+   * [[`diagram`]] if there's none. */
+  end: number;
+
+  /** The lacing of the diagram, or `null` if it has a single layer. */
+  lacing: Lacing | null;
+
   graph: CDGraph;
 
+  /** The list where parsing errors are collected, or `null` if they're
+   * thrown instead. */
+  private errors: CDParseError[] | null;
+
   /**
    * Constructor for the CD class.
    *
    * @param diagram The CD diagram in text form.
+   * @param errors If given, parsing errors are added to this list instead of
+   * being thrown, and the parser carries on as best as it can.
+   * @throws Will throw a [[`CDParseError`]] if the diagram can't be parsed,
+   * unless an error list is given.
    */
-  constructor(diagram: string) {
+  constructor(diagram: string, errors?: CDParseError[]) {
     this.diagram = diagram;
+    this.errors = errors || null;
     this.pos = 0;
+    this.end = diagram.length;
+    this.lacing = this.readLacing();
     this.graph = this.toGraph();
+    this.graph.lacing = this.lacing;
+  }
+
+  /**
+   * Parses a diagram without throwing any errors.
+   *
+   * @param diagram The CD diagram in text form.
+   * @returns The parsed diagram, or `null` if there were any errors, along
+   * with every error that was found.
+   */
+  static tryParse(diagram: string): { cd: CD | null; errors: CDParseError[] } {
+    const errors: CDParseError[] = [];
+    const cd = new CD(diagram, errors);
+
+    return { cd: errors.length ? null : cd, errors: errors };
+  }
+
+  /**
+   * Handles a parsing error, by either throwing it or adding it to the list
+   * of errors.
+   *
+   * @param code The error code.
+   * @param expected The kind of token the parser expected.
+   * @param index The index of the offending character.
+   * @throws Will throw a [[`CDParseError`]] if errors aren't being collected.
+   */
+  private throwError(code: string, expected: CDToken, index = this.pos): void {
+    const error = new CDParseError(this.diagram, code, expected, index);
+
+    if (this.errors) this.errors.push(error);
+    else throw error;
   }
 
   /**
@@ -95,6 +383,7 @@ export default class CD {
    * isn't just before a valid node label.
    */
   readNode(): string {
+    if (this.lacing) return this.matchRegex(layeredNodeLabels) || "";
     return this.matchRegex(nodeLabels) || "";
   }
 
@@ -121,6 +410,26 @@ export default class CD {
     else return this.matchRegex(virtualNodesNumber);
   }
 
+  /**
+   * Reads the lacing at the end of the diagram, if there's any. Sets
+   * [[`end`]] to the position where the lacing starts. The number of layers is
+   * set while reading the nodes.
+   *
+   * @returns The lacing of the diagram, or `null` if there's none.
+   */
+  private readLacing(): Lacing | null {
+    const match = lacingRegex.exec(this.diagram);
+    if (!match) return null;
+
+    this.end = match.index;
+    return {
+      layers: 0,
+      label: match[2] || "x",
+      tower: match[3] === "t",
+      zeroHeight: match[1] === "z",
+    };
+  }
+
   /**
    * Converts a textual Coxeter Diagram to a graph.
    *
@@ -152,12 +461,11 @@ export default class CD {
     let newNodeRef: NodeRef | null = null;
 
     // Reads through the diagram.
-    while (this.pos < cd.length) {
+    while (this.pos < this.end) {
       switch (cd[this.pos]) {
         // Skips spaces.
         case " ":
-          if (readingNode)
-            throw new Error("Expected node label, got space instead.");
+          if (readingNode) this.throwError("expectedNode", CDToken.Node);
 
           readingNode = true;
           edgeLabel = "";
@@ -170,8 +478,7 @@ export default class CD {
 
         // Reads virtual node.
         case "*":
-          if (!readingNode)
-            throw new Error("Expected edge label, got virtual node instead.");
+          if (!readingNode) this.throwError("expectedEdge", CDToken.Edge);
 
           // The index of the node this virtual node refers to.
           let nodeIndex: number;
@@ -188,8 +495,12 @@ export default class CD {
           // Tries to read the virtual node as a number virtual node.
           else {
             virtualNode = this.readVirtualNode(false);
-            // If the node couldn't be read either way.
-            if (virtualNode === null) throw new Error("Invalid virtual node.");
+            // If the node couldn't be read either way, skips the asterisk.
+            if (virtualNode === null) {
+              this.throwError("invalidVirtualNode", CDToken.VirtualNode);
+              readingNode = false;
+              break;
+            }
 
             // Parentheses
             if (virtualNode[1] === "(")
@@ -204,9 +515,11 @@ export default class CD {
           linkNodes = true;
           break;
 
-        // Does lacing stuff.
+        // Lacing can only go at the end of the diagram, so the rest is skipped.
         case "&":
-          throw new Error("Laces not yet supported.");
+          this.throwError("invalidLacing", CDToken.Lacing);
+          this.pos = this.end;
+          continue;
 
         default:
           // Node values.
@@ -214,13 +527,37 @@ export default class CD {
             const index = this.pos;
             let newNodeLabel = this.readNode();
 
-            if (newNodeLabel === "") throw new Error("Invalid node symbol.");
+            // Invalid nodes are replaced by unringed ones, so that the indices
+            // of the other nodes are preserved.
+            if (newNodeLabel === "") {
+              this.throwError("invalidNode", CDToken.Node);
+              newNodeLabel = "o".repeat(this.lacing?.layers || 1);
+            }
 
             // Removes parentheses.
             if (newNodeLabel[0] === "(")
               newNodeLabel = newNodeLabel.substr(1, newNodeLabel.length - 2);
 
-            if (nodes.length > MAX_LEN) throw new Error("Diagram too big.");
+            // Every letter of a laced node is a node label on its own.
+            const labels = this.lacing
+              ? newNodeLabel.split("")
+              : [newNodeLabel];
+            if (!labels.every((label) => CDNode.isValid(label)))
+              this.throwError("invalidNode", CDToken.Node, index);
+
+            if (nodes.length > MAX_LEN) {
+              this.throwError("tooBig", CDToken.End);
+              this.pos = this.end;
+              continue;
+            }
+
+            // Every node of a laced diagram has one letter per layer.
+            if (this.lacing) {
+              if (!this.lacing.layers) this.lacing.layers = newNodeLabel.length;
+
+              if (newNodeLabel.length !== this.lacing.layers)
+                this.throwError("layerMismatch", CDToken.Node, index);
+            }
 
             newNodeRef = new NodeRef(nodes.length, index);
             nodes.push(new CDNode(newNodeLabel));
@@ -231,13 +568,17 @@ export default class CD {
 
           // Edge values.
           else {
+            const index = this.pos;
             edgeLabel = this.readNumber();
 
-            if (edgeLabel === "") throw new Error("Invalid edge symbol.");
+            if (edgeLabel === "") this.throwError("invalidEdge", CDToken.Edge);
 
             if (edgeLabel[0] === "(")
               edgeLabel = edgeLabel.substr(1, edgeLabel.length - 2);
 
+            if (edgeLabel !== "" && isNaN(CDNode.labelValue(edgeLabel)))
+              this.throwError("invalidEdge", CDToken.Edge, index);
+
             readingNode = true;
           }
 
@@ -260,11 +601,13 @@ export default class CD {
     }
 
     // Throws an error if the CD ends in an edge label.
-    if (readingNode)
-      throw new Error("Node label expected, got string end instead.");
+    if (readingNode) this.throwError("unexpectedEnd", CDToken.Node, this.end);
+
+    if (this.lacing && this.lacing.layers < 2)
+      this.throwError("tooFewLayers", CDToken.Lacing, this.end);
 
     // Links corresponding nodes.
-    for (let i = 0; i < edges.length; i++) {
+    edges: for (let i = 0; i < edges.length; i++) {
       const edge = edges[i];
 
       // Checks if nodes in range.
@@ -275,14 +618,19 @@ export default class CD {
         this.pos = vertex.pos;
 
         const index = vertex.index;
-        if (index >= nodes.length || index < -nodes.length)
-          throw new Error("Virtual node out of range.");
+        if (index >= nodes.length || index < -nodes.length) {
+          this.throwError("virtualNodeOutOfRange", CDToken.VirtualNode);
+          continue edges;
+        }
       }
 
       // Attempts to link each pair.
       const node0 = edge.get(0);
       const node1 = edge.get(1);
-      if (!(node0 && node1)) throw new Error("Invalid edge.");
+      if (!(node0 && node1)) {
+        this.throwError("invalidEdge", CDToken.Edge);
+        continue;
+      }
 
       const index0 = node0.index;
       const index1 = node1.index;
@@ -303,6 +651,56 @@ export default class CD {
   circumradius(): number {
     return this.graph.circumradius();
   }
+
+  layerCircumradii(): number[] {
+    return this.graph.layerCircumradii();
+  }
+
+  layerHeights(): number[] {
+    return this.graph.layerHeights();
+  }
+
+  canonical(): string {
+    return this.graph.canonical();
+  }
+
+  classify(): CDComponentType[] {
+    return this.graph.classify();
+  }
+
+  geometry(): CDGeometry {
+    return this.graph.geometry();
+  }
+
+  order(): number {
+    return this.graph.order();
+  }
+
+  /**
+   * Builds the polytope described by the diagram, via Wythoff's construction.
+   * Diagrams with snub nodes are alternated. See [[`wythoff`]] and [[`snub`]]
+   * for details.
+   *
+   * @returns The polytope described by the diagram.
+   * @throws Will throw an error if the diagram has no ringed nodes, if its
+   * symmetry group isn't finite, if it can't be alternated, or if it's laced.
+   */
+  toPolytope(): PolytopeC {
+    // Lace prisms and the like aren't supported yet.
+    if (this.lacing)
+      throw new CDParseError(
+        this.diagram,
+        "lacedPolytope",
+        CDToken.Lacing,
+        this.end
+      );
+
+    const P = this.graph.nodes.some((node) => node.isSnub())
+      ? snub(this.graph)
+      : wythoff(this.graph);
+    P.setConstruction(new CNWythoff(this.graph));
+    return P;
+  }
 }
 
 /**
@@ -369,41 +767,89 @@ export class CDNode extends GraphNodeBase<string> {
     F: (3 + Math.sqrt(5)) / 2,
   };
 
+  /** The labels of snub and holosnub nodes. */
+  private static snubLabels = ["s", "ß", "β"];
+
   /**
-   * Parses the node's value as a distance from a mirror.
+   * Checks whether the node is a snub or holosnub node, which is alternated
+   * rather than ringed.
    *
-   * @returns The distance corresponding to the node.
+   * @returns Whether the node is a snub node.
+   */
+  isSnub(): boolean {
+    return CDNode.snubLabels.includes(this.value);
+  }
+
+  /**
+   * Checks whether a label can be given to a node, either because it
+   * stands for a length or because it marks a snub node.
+   *
+   * @param label The node label.
+   * @returns Whether the label is valid.
    */
-  parseNode(): number {
-    const node = CDNode.dictionary[this.value];
+  static isValid(label: string): boolean {
+    return (
+      Object.prototype.hasOwnProperty.call(CDNode.dictionary, label) ||
+      CDNode.snubLabels.includes(label)
+    );
+  }
+
+  /**
+   * Parses a node label as a length.
+   *
+   * @param label The node label.
+   * @returns The length corresponding to the label.
+   */
+  static parseValue(label: string): number {
+    const node = CDNode.dictionary[label];
 
     if (node !== undefined) return node;
     else
       throw new Error(
-        "Node label " + this.value + " could not be recognized as a value."
+        "Node label " + label + " could not be recognized as a value."
       );
   }
 
   /**
-   * Gets the numeric value of a given label.
+   * Parses the node's value as a distance from a mirror.
    *
-   * @param index The index of the label.
-   * @returns The label as a number.
+   * @param layer The layer to read, for nodes of laced diagrams.
+   * @returns The distance corresponding to the node.
    */
-  parseLabel(index: number): number {
-    const labelStr = this.labels[index];
-    let label: number;
+  parseNode(layer?: number): number {
+    if (layer === undefined) return CDNode.parseValue(this.value);
+    return CDNode.parseValue(this.value[layer]);
+  }
 
+  /**
+   * Reads an edge label as a number.
+   *
+   * @param labelStr The edge label.
+   * @returns The label as a number, or `NaN` if it isn't a number, a fraction
+   * or infinity.
+   */
+  static labelValue(labelStr: string): number {
     if (labelStr === "∞") return Infinity;
 
     const slash = labelStr.indexOf("/");
 
     // If the label is a single number.
-    if (slash === -1) label = Number(labelStr);
+    if (slash === -1) return Number(labelStr);
     // If the label is a fraction.
-    else
-      label =
-        Number(labelStr.substr(0, slash)) / Number(labelStr.substr(slash + 1));
+    return (
+      Number(labelStr.substr(0, slash)) / Number(labelStr.substr(slash + 1))
+    );
+  }
+
+  /**
+   * Gets the numeric value of a given label.
+   *
+   * @param index The index of the label.
+   * @returns The label as a number.
+   */
+  parseLabel(index: number): number {
+    const labelStr = this.labels[index];
+    const label = CDNode.labelValue(labelStr);
 
     if (!isNaN(label)) return label;
     else
@@ -422,6 +868,9 @@ export class CDNode extends GraphNodeBase<string> {
 export class CDGraph extends GraphBase<string> {
   nodes: CDNode[];
 
+  /** The lacing of the diagram, or `null` if it has a single layer. */
+  lacing: Lacing | null = null;
+
   /**
    * Constructor for Graph class.
    *
@@ -467,11 +916,13 @@ export class CDGraph extends GraphBase<string> {
         if (label === null)
           throw new Error("Ø not permitted in circumradius computation.");
 
-        if (neighbor.arrayIndex === undefined)
-          throw new Error("Node not declared correctly.");
+        // The array indices of the nodes are overwritten whenever the graph
+        // is split into components, so we don't rely on them.
+        const index = this.nodes.indexOf(neighbor);
+        if (index === -1) throw new Error("Node not declared correctly.");
 
         // Fills in the matrix entries.
-        matrix[i][neighbor.arrayIndex] = cos(label);
+        matrix[i][index] = cos(label);
       }
     }
 
@@ -484,20 +935,59 @@ export class CDGraph extends GraphBase<string> {
     }
   }
 
+  /**
+   * Gets the Coxeter matrix of a Coxeter diagram. Each entry (i, j) is the
+   * label of the edge between the i-th and j-th nodes, or 2 if they're not
+   * linked. The diagonal entries are 1.
+   *
+   * @returns The Coxeter matrix of the CD.
+   * @throws Will throw an error if some edge label isn't an integer, since
+   * those don't define an abstract Coxeter group.
+   */
+  coxeterMatrix(): number[][] {
+    const n = this.size(),
+      matrix: number[][] = [];
+
+    for (let i = 0; i < n; i++) {
+      matrix.push(new Array(n).fill(2));
+      matrix[i][i] = 1;
+
+      const node = this.nodes[i],
+        neighbors = node.neighbors;
+
+      for (let j = 0; j < neighbors.length; j++) {
+        const label = node.parseLabel(j);
+
+        if (!Number.isInteger(label) && label !== Infinity) {
+          throw new Error(
+            "Edge label " +
+              node.labels[j] +
+              " isn't a valid Coxeter group label."
+          );
+        }
+
+        matrix[i][this.nodes.indexOf(neighbors[j])] = label;
+      }
+    }
+
+    return matrix;
+  }
+
   /**
    * Calculates the circumradius of the polytope corresponding to the Coxeter
    * Diagram. Can be slow for larger diagrams, so its better to use
    * [[`circumradius`]].
    *
+   * @param layer The layer to use, for laced diagrams.
    * @returns The circumradius of the polytope corresponding to the CD.
    */
-  private _circumradius(): number {
+  private _circumradius(layer?: number): number {
     const rings: number[] = [];
     let allZero = true;
 
     // Creates the vector of distances of the point to the mirrors.
     for (let i = 0; i < this.size(); i++) {
-      const val = this.nodes[i].parseNode();
+      const val = this.nodes[i].parseNode(layer);
       rings.push(val);
 
       if (val != 0) allZero = false;
@@ -528,14 +1018,15 @@ export class CDGraph extends GraphBase<string> {
    * Diagram. Separates the diagram into connected components before calling
    * [[`_circumradius`]] on each component and combining the results.
    *
+   * @param layer The layer to use, for laced diagrams.
    * @returns The circumradius of the polytope corresponding to the CD.
    */
-  circumradius(): number {
+  circumradius(layer?: number): number {
     let res = 0;
     const components = this.getComponents();
 
     for (let i = 0; i < components.length; i++) {
-      const R = components[i]._circumradius();
+      const R = components[i]._circumradius(layer);
 
       // If any of the components' circumradii is Infinity, don't even bother
       // computing the rest.
@@ -551,6 +1042,506 @@ export class CDGraph extends GraphBase<string> {
   getComponents(): CDGraph[] {
     return super.getComponents() as CDGraph[];
   }
+
+  /**
+   * Helper function for [[`writeNode`]]. Writes a node label, adding
+   * parentheses whenever it's not a single letter.
+   *
+   * @param node The node to write.
+   * @returns The node label in text form.
+   */
+  private nodeLabel(node: CDNode): string {
+    if (this.lacing || /^[a-zA-Zßβ]$/.test(node.value)) return node.value;
+    return "(" + node.value + ")";
+  }
+
+  /**
+   * Helper function for [[`writeNode`]]. Writes a virtual node, as a letter
+   * whenever possible.
+   *
+   * @param index The index of the node the virtual node refers to.
+   * @returns The virtual node in text form.
+   */
+  private static virtualNode(index: number): string {
+    if (index < 26) return "*" + String.fromCharCode(97 + index);
+    return "*(" + (index + 1) + ")";
+  }
+
+  /**
+   * Helper function for [[`toString`]] and [[`canonical`]]. Writes a node
+   * along with its links to the nodes written before it. The link to the
+   * previous node is written as an edge label, and the rest of them by
+   * means of virtual nodes. Edges labeled 2 are omitted, since they're the
+   * same as no edge at all.
+   *
+   * @param node The node to write.
+   * @param indices The index of each node written so far.
+   * @param cursor The node the next edge label would be linked to, or `null`
+   * if nothing has been written yet.
+   * @returns The text for the node, along with the new cursor.
+   */
+  private writeNode(
+    node: CDNode,
+    indices: Map<CDNode, number>,
+    cursor: CDNode | null
+  ): [string, CDNode] {
+    const links: [number, string, CDNode][] = [];
+    let res = "";
+
+    for (let i = 0; i < node.neighbors.length; i++) {
+      const neighbor = node.neighbors[i];
+      const index = indices.get(neighbor);
+
+      if (index !== undefined && node.labels[i] !== "2")
+        links.push([index, node.labels[i], neighbor]);
+    }
+
+    links.sort((a, b) => a[0] - b[0]);
+    const cursorIndex = cursor ? indices.get(cursor) : undefined;
+    let link = links.findIndex(([index]) => index === cursorIndex);
+
+    // Jumps to a previous node with a virtual node if needed.
+    if (link === -1 && links.length) {
+      link = 0;
+      res += " " + CDGraph.virtualNode(links[0][0]);
+    } else if (link === -1 && cursor) res += " ";
+
+    if (link !== -1) res += links.splice(link, 1)[0][1];
+    res += this.nodeLabel(node);
+
+    const index = indices.size;
+    indices.set(node, index);
+
+    // Links the rest of the previous nodes, jumping back to this one each
+    // time.
+    cursor = node;
+    for (let i = 0; i < links.length; i++) {
+      if (i) res += " " + CDGraph.virtualNode(index);
+      res += links[i][1] + CDGraph.virtualNode(links[i][0]);
+      cursor = links[i][2];
+    }
+
+    return [res, cursor];
+  }
+
+  /**
+   * Helper function for [[`toString`]] and [[`canonical`]]. Writes the
+   * lacing of the diagram, if there's any.
+   *
+   * @returns The lacing in text form.
+   */
+  private writeLacing(): string {
+    if (!this.lacing) return "";
+
+    return (
+      "&#" +
+      (this.lacing.zeroHeight ? "z" : "") +
+      this.lacing.label +
+      (this.lacing.tower ? "t" : "")
+    );
+  }
+
+  /**
+   * Writes the diagram in
+   * [[https://bendwavy.org/klitzing/explain/dynkin-notation.htm|Richard
+   * Klitzing's notation]], with the nodes in the order they're stored.
+   *
+   * @returns The diagram in text form.
+   */
+  toString(): string {
+    return this.write(this.nodes);
+  }
+
+  /**
+   * Helper function for [[`toString`]] and [[`canonical`]]. Writes the
+   * diagram with the nodes in a given order.
+   *
+   * @param order The nodes of the diagram, in the order they're written.
+   * @returns The diagram in text form.
+   */
+  private write(order: CDNode[]): string {
+    const indices = new Map<CDNode, number>();
+    let res = "",
+      cursor: CDNode | null = null;
+
+    for (let i = 0; i < order.length; i++) {
+      const [text, newCursor] = this.writeNode(order[i], indices, cursor);
+      res += text;
+      cursor = newCursor;
+    }
+
+    return res + this.writeLacing();
+  }
+
+  /**
+   * Helper function for [[`canonical`]]. Finds the order of the nodes of a
+   * connected diagram giving the greatest string in [[`write`]], among all
+   * orders given by depth-first searches. Branches whose text is already
+   * smaller than the best one found are pruned.
+   *
+   * @returns The nodes in their canonical order.
+   */
+  private canonicalOrder(): CDNode[] {
+    let best = "",
+      bestOrder: CDNode[] = [];
+    let steps = 0;
+
+    const order: CDNode[] = [];
+    const indices = new Map<CDNode, number>();
+
+    const search = (stack: CDNode[], text: string, cursor: CDNode): void => {
+      if (steps++ > MAX_CANONICAL_STEPS) return;
+      if (text < best.substr(0, text.length)) return;
+
+      // Backtracks until some node has unvisited neighbors.
+      let unvisited: CDNode[] = [];
+      while (stack.length) {
+        const top = stack[stack.length - 1];
+        unvisited = top.neighbors.filter((node) => !indices.has(node));
+
+        if (unvisited.length) break;
+        stack = stack.slice(0, -1);
+      }
+
+      if (!stack.length) {
+        if (text > best) {
+          best = text;
+          bestOrder = order.slice();
+        }
+
+        return;
+      }
+
+      for (let i = 0; i < unvisited.length; i++) {
+        const node = unvisited[i];
+        order.push(node);
+        const [nodeText, newCursor] = this.writeNode(node, indices, cursor);
+
+        search(stack.concat([node]), text + nodeText, newCursor);
+
+        order.pop();
+        indices.delete(node);
+      }
+    };
+
+    for (let i = 0; i < this.nodes.length; i++) {
+      const node = this.nodes[i];
+      order.push(node);
+      const [text, cursor] = this.writeNode(node, indices, null);
+
+      search([node], text, cursor);
+
+      order.pop();
+      indices.delete(node);
+    }
+
+    return bestOrder;
+  }
+
+  /**
+   * Writes the diagram in a canonical form, so that isomorphic diagrams such
+   * as `x3o4o` and `o4o3x` give the same text. Each component is written in
+   * the order that makes its text greatest, and the components are then
+   * sorted in decreasing order.
+   *
+   * The search for the canonical order is exhaustive, so it stops after
+   * [[`MAX_CANONICAL_STEPS`]] steps. This only happens for diagrams with
+   * many symmetries, such as large complete graphs.
+   *
+   * @returns The diagram in canonical form.
+   */
+  canonical(): string {
+    const components = this.getComponents().map((component) => {
+      component.lacing = this.lacing;
+      const order = component.canonicalOrder();
+      return { order: order, text: component.write(order) };
+    });
+
+    components.sort((a, b) => (a.text < b.text ? 1 : a.text > b.text ? -1 : 0));
+
+    let order: CDNode[] = [];
+    for (let i = 0; i < components.length; i++)
+      order = order.concat(components[i].order);
+
+    // The indices of the nodes are overwritten when splitting the graph into
+    // components, so they're restored.
+    for (let i = 0; i < this.nodes.length; i++) this.nodes[i].arrayIndex = i;
+
+    return this.write(order);
+  }
+
+  /**
+   * Helper function for [[`classify`]]. Identifies a spherical component with
+   * integer labels by its shape. Every such component is either a path, or a
+   * tree with a single node of degree 3.
+   *
+   * @param coxeter The Coxeter matrix of the component.
+   * @returns The name and the order of the group of the component.
+   */
+  private static sphericalType(coxeter: number[][]): [string, number] {
+    const n = coxeter.length;
+    if (n === 1) return ["A1", 2];
+
+    if (n === 2) return dihedralType(coxeter[0][1]);
+
+    const types = new Map(sphericalTypes(n));
+    const neighbors = coxeter.map((row, i) =>
+      row.map((_x, j) => j).filter((j) => i !== j && row[j] !== 2)
+    );
+
+    // The lengths of the arms coming out of a node.
+    const arms = function (node: number): number[][] {
+      return neighbors[node].map((start) => {
+        const arm = [node, start];
+        for (;;) {
+          const prev = arm[arm.length - 2],
+            cur = arm[arm.length - 1];
+          const next = neighbors[cur].filter((j) => j !== prev);
+          if (!next.length) return arm;
+          arm.push(next[0]);
+        }
+      });
+    };
+
+    // The component has a branch point.
+    const branch = neighbors.findIndex((list) => list.length === 3);
+    if (branch !== -1) {
+      const lengths = arms(branch)
+        .map((arm) => arm.length - 1)
+        .sort((a, b) => a - b);
+      const name = lengths[0] === 1 && lengths[1] === 1 ? "D" + n : "E" + n;
+
+      return [name, types.get(name) as number];
+    }
+
+    // The component is a path, so its labels are read in order.
+    const end = neighbors.findIndex((list) => list.length === 1);
+    const path = arms(end)[0];
+    const labels: number[] = [];
+    for (let i = 1; i < path.length; i++)
+      labels.push(coxeter[path[i - 1]][path[i]]);
+
+    const special = labels.findIndex((label) => label !== 3);
+    let name: string;
+
+    if (special === -1) name = "A" + n;
+    else if (labels[special] === 5) name = "H" + n;
+    else if (special === 0 || special === labels.length - 1) name = "B" + n;
+    else name = "F4";
+
+    return [name, types.get(name) as number];
+  }
+
+  /**
+   * Classifies each connected component of the diagram by the eigenvalues of
+   * its Schläfli matrix. Spherical components are further identified as one
+   * of the finite irreducible Coxeter groups. Nodes linked only by edges
+   * labeled 2 are considered to be in different components.
+   *
+   * Components with fractional labels are identified by the number of points
+   * in the orbit of a generic point, since their shape doesn't determine
+   * their group.
+   *
+   * @returns The type of each component.
+   */
+  classify(): CDComponentType[] {
+    const schlaflian = this.schlaflian().toArray() as number[][];
+    const n = schlaflian.length;
+    const visited: boolean[] = new Array(n).fill(false);
+    const res: CDComponentType[] = [];
+
+    for (let i = 0; i < n; i++) {
+      if (visited[i]) continue;
+
+      // Finds the component of the node.
+      const nodes = [i];
+      visited[i] = true;
+      for (let j = 0; j < nodes.length; j++) {
+        for (let k = 0; k < n; k++) {
+          if (!visited[k] && Math.abs(schlaflian[nodes[j]][k]) > 1e-9) {
+            visited[k] = true;
+            nodes.push(k);
+          }
+        }
+      }
+
+      nodes.sort((a, b) => a - b);
+      const matrix = nodes.map((j) => nodes.map((k) => schlaflian[j][k]));
+      const min = eigenvalues(matrix)[0];
+
+      if (min < -EIGENVALUE_PRECISION) {
+        res.push({
+          geometry: CDGeometry.Hyperbolic,
+          name: "hyperbolic",
+          nodes: nodes,
+          order: Infinity,
+        });
+        continue;
+      }
+
+      if (min < EIGENVALUE_PRECISION) {
+        res.push({
+          geometry: CDGeometry.Euclidean,
+          name: "affine",
+          nodes: nodes,
+          order: Infinity,
+        });
+        continue;
+      }
+
+      let name = "spherical",
+        order: number;
+
+      try {
+        const component = new CDGraph(nodes.map((j) => this.nodes[j]));
+        [name, order] = CDGraph.sphericalType(component.coxeterMatrix());
+      } catch (error) {
+        // Fractional labels. The generating point must not lie on any mirror
+        // of the group, so it's taken at incommensurable distances from them.
+        const normals = mirrorNormals(matrix);
+        const values = nodes.map((_j, k) => 1 + k / Math.PI);
+        try {
+          order = orbit(generatingPoint(normals, values), normals).points
+            .length;
+        } catch (e) {
+          order = Infinity;
+        }
+
+        if (nodes.length === 2) name = dihedralType(order / 2)[0];
+        else {
+          const type = sphericalTypes(nodes.length).find(
+            ([, typeOrder]) => typeOrder === order
+          );
+          if (type) name = type[0];
+        }
+      }
+
+      res.push({
+        geometry: CDGeometry.Spherical,
+        name: name,
+        nodes: nodes,
+        order: order,
+      });
+    }
+
+    // Splitting the graph overwrites the indices of the nodes.
+    for (let i = 0; i < n; i++) this.nodes[i].arrayIndex = i;
+
+    return res;
+  }
+
+  /**
+   * Gets the geometry the diagram describes. It's spherical when every
+   * component is, Euclidean when every component is spherical or Euclidean,
+   * and hyperbolic otherwise. A diagram is non-spherical precisely when its
+   * [[`circumradius`]] is infinite.
+   *
+   * @returns The geometry of the diagram.
+   */
+  geometry(): CDGeometry {
+    let res = CDGeometry.Spherical;
+    const types = this.classify();
+
+    for (let i = 0; i < types.length; i++)
+      res = Math.max(res, types[i].geometry);
+
+    return res;
+  }
+
+  /**
+   * Calculates the order of the symmetry group of the diagram, as the product
+   * of the orders of its components.
+   *
+   * @returns The order of the group, or `Infinity` if it isn't finite.
+   */
+  order(): number {
+    return this.classify().reduce((res, type) => res * type.order, 1);
+  }
+
+  /**
+   * Gets the pairs of layers joined by lacing edges. These are the
+   * consecutive layers for lace towers, and every pair of layers otherwise.
+   *
+   * @returns The pairs of laced layers.
+   */
+  lacedLayers(): [number, number][] {
+    const res: [number, number][] = [];
+    if (!this.lacing) return res;
+
+    for (let i = 0; i < this.lacing.layers; i++) {
+      if (this.lacing.tower) {
+        if (i + 1 < this.lacing.layers) res.push([i, i + 1]);
+      } else for (let j = i + 1; j < this.lacing.layers; j++) res.push([i, j]);
+    }
+
+    return res;
+  }
+
+  /**
+   * Calculates the circumradius of each layer of a laced diagram.
+   *
+   * @returns The circumradii of the layers.
+   */
+  layerCircumradii(): number[] {
+    const res: number[] = [];
+    if (!this.lacing) return [this.circumradius()];
+
+    for (let i = 0; i < this.lacing.layers; i++) res.push(this.circumradius(i));
+
+    return res;
+  }
+
+  /**
+   * Calculates the distance between the hyperplanes of each pair of laced
+   * layers, in the order given by [[`lacedLayers`]]. The lacing edges join the
+   * generating vertices of both layers, whose distance d within their
+   * hyperplanes satisfies d² = (a – b)ᵀS⁻¹(a – b) / 2, where S is the Schläfli
+   * matrix and a and b are the values of the nodes in each layer. The height
+   * is then given by the Pythagorean theorem.
+   *
+   * @returns The heights between each pair of laced layers.
+   * @throws Will throw an error if some pair of layers is too far apart to be
+   * laced, or if a diagram with zero height has layers at different heights.
+   */
+  layerHeights(): number[] {
+    const lacing = this.lacing;
+    if (!lacing) return [];
+
+    const n = this.size();
+    const length = CDNode.parseValue(lacing.label);
+    const stott = MathJS.inv(this.schlaflian()).toArray() as number[][];
+    const res: number[] = [];
+
+    const pairs = this.lacedLayers();
+    for (let i = 0; i < pairs.length; i++) {
+      const [a, b] = pairs[i];
+      const diff = this.nodes.map(
+        (node) => node.parseNode(a) - node.parseNode(b)
+      );
+
+      let dSq = 0;
+      for (let j = 0; j < n; j++)
+        for (let k = 0; k < n; k++)
+          dSq += (diff[j] * stott[j][k] * diff[k]) / 2;
+
+      const hSq = length * length - dSq;
+      if (lacing.zeroHeight) {
+        if (Math.abs(hSq) > 1e-9)
+          throw new Error("Layers " + a + " and " + b + " aren't at height 0.");
+
+        res.push(0);
+      } else {
+        if (hSq < -1e-9)
+          throw new Error(
+            "Layers " + a + " and " + b + " are too far apart to be laced."
+          );
+
+        res.push(Math.sqrt(Math.max(hSq, 0)));
+      }
+    }
+
+    return res;
+  }
 }
 
 /**
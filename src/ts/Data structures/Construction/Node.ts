@@ -3,6 +3,7 @@ import { Language } from "../../Translation/Language";
 import Type from "./Type";
 import { Gender } from "../../Translation/Basic/LanguageOptions";
 import type { PolytopeB } from "../../polytopes/types";
+import type { CDGraph } from "../CD";
 import ConstructionNode, { Leaf, Family, Multifamily } from "./base";
 
 /**
@@ -308,3 +309,297 @@ export class Cross extends Leaf<number> {
     return Language.cross(this.child);
   }
 }
+
+/**
+ * A ConstructionNode of [[`Element`]] type.
+ *
+ * @category ConstructionNode Types
+ */
+export class Element extends Leaf<[ConstructionNode<unknown>, number]> {
+  readonly type = Type.Element;
+  child: [ConstructionNode<unknown>, number];
+  polytope: PolytopeB | undefined;
+  gender: Gender;
+
+  constructor(child: [ConstructionNode<unknown>, number]) {
+    super();
+    this.child = child;
+    this.gender = Gender.male;
+  }
+
+  getName(): string {
+    return Message.get("construction/element", {
+      arg0: Language.element(this.child[1]),
+      arg1: this.child[0].getName(),
+    });
+  }
+}
+
+/**
+ * A ConstructionNode of [[`VertexFigure`]] type.
+ *
+ * @category ConstructionNode Types
+ */
+export class VertexFigure extends Leaf<ConstructionNode<unknown>> {
+  readonly type = Type.VertexFigure;
+  child: ConstructionNode<unknown>;
+  polytope: PolytopeB | undefined;
+  gender: Gender;
+
+  constructor(child: ConstructionNode<unknown>) {
+    super();
+    this.child = child;
+    this.gender = Gender.female;
+  }
+
+  getName(): string {
+    return Message.get("construction/vertexFigure", {
+      arg0: this.child.getName(),
+    });
+  }
+}
+
+/** Bowers-style acronyms for Wythoffian polytopes without a systematic name,
+ * such as those with branched, star or snub diagrams, indexed by their
+ * canonical diagrams. */
+const acronyms: Record<string, string> = {
+  // Star polygons.
+  "x5/2o": "stip",
+  "x8/3o": "stog",
+  "x10/3o": "stade",
+  "x12/5o": "stwadeg",
+
+  // Star polyhedra.
+  "x5/2o5o": "sissid",
+  "x5o5/2o": "gad",
+  "x5/2o3o": "gissid",
+  "x3o5/2o": "gike",
+  "x5o *a5/2o": "did",
+  "x5/2o *a3o": "gid",
+  "x5x5/2o": "tigid",
+  "x5/2o *a3x": "tiggy",
+  "x5o5/2x": "raded",
+
+  // Snubs and alternated polytopes.
+  s3s3s: "ike",
+  "s4o *a3s": "ike",
+  s4s3s: "snic",
+  s5s3s: "snid",
+  s4o3o: "tet",
+  s4o3o3o: "hex",
+  "s4o3o *a3s": "sadi",
+  s4o3o3o3o: "hin",
+
+  // Branched diagrams.
+  "x3o3o *b3o": "hex",
+  "x3o3o3o *b3o": "hin",
+  "x3o3o3o3o *b3o": "hax",
+  "x3o3o3o3o *c3o": "jak",
+  "x3o3o3o *b3o3o": "mo",
+  "x3o3o3o3o3o *c3o": "laq",
+  "x3o3o3o3o3o *d3o": "naq",
+  "x3o3o3o3o *b3o3o": "lin",
+  "x3o3o3o3o3o3o *c3o": "bay",
+  "x3o3o3o3o3o3o *e3o": "fy",
+  "x3o3o3o3o3o *b3o3o": "bif",
+};
+
+/**
+ * Helper function for [[`wythoffianComponents`]]. Gets the regular polytope
+ * described by a linear diagram with only its first node ringed.
+ *
+ * @param family The letter of the family of the diagram.
+ * @param n The rank of the diagram.
+ * @param specialStart Whether the first edge of the diagram isn't labeled 3.
+ * @returns The regular polytope, or `null` if it has no name.
+ */
+const regularBase = function (
+  family: string,
+  n: number,
+  specialStart: boolean
+): ConstructionNode<unknown> | null {
+  let code: string | null = null;
+
+  switch (family) {
+    case "A":
+      if (n === 3) code = "tetrahedron";
+      else if (n === 4) code = "pentachoron";
+      else return new Simplex(n);
+      break;
+    case "B":
+      if (specialStart) {
+        if (n === 3) code = "cube";
+        else if (n === 4) code = "tesseract";
+        else return new Hypercube(n);
+      } else {
+        if (n === 3) code = "octahedron";
+        else if (n === 4) code = "hexadecachoron";
+        else return new Cross(n);
+      }
+      break;
+    case "H":
+      if (n === 3) code = specialStart ? "dodecahedron" : "icosahedron";
+      else code = specialStart ? "hecatonicosachoron" : "hexacosichoron";
+      break;
+    case "F":
+      code = "icositetrachoron";
+      break;
+  }
+
+  if (!code) return null;
+
+  const res = new Codename(code);
+  res.gender = Language.codenameGender(code);
+  return res;
+};
+
+/**
+ * Helper function for [[`Wythoff`]]. Splits a Coxeter diagram into its
+ * components with ringed nodes, and finds the regular polytope each of them
+ * is built from, along with which of its nodes are ringed.
+ *
+ * @param graph The Coxeter diagram.
+ * @returns The regular polytope and the ringed nodes of each component, or
+ * `null` if some component has no name.
+ */
+const wythoffianComponents = function (
+  graph: CDGraph
+): [ConstructionNode<unknown>, number[]][] | null {
+  const values = graph.nodes.map((node) => node.value);
+  if (graph.lacing || values.some((value) => value !== "x" && value !== "o"))
+    return null;
+
+  let coxeter: number[][];
+  try {
+    coxeter = graph.coxeterMatrix();
+  } catch (e) {
+    return null;
+  }
+
+  const res: [ConstructionNode<unknown>, number[]][] = [];
+  const types = graph.classify();
+
+  for (let i = 0; i < types.length; i++) {
+    const { name, nodes, order } = types[i];
+    if (!nodes.some((node) => values[node] === "x")) continue;
+    if (order === Infinity) return null;
+
+    const n = nodes.length;
+    if (n === 1) {
+      res.push([new Codename("dyad"), [0]]);
+      continue;
+    }
+
+    // Components with a branch point can only be named by their acronyms,
+    // which aren't combined with any other names.
+    if (name[0] === "D" || name[0] === "E") {
+      if (
+        types.filter((t) => t.nodes.some((j) => values[j] === "x")).length > 1
+      )
+        return null;
+
+      const node = graph.nodes[nodes[0]];
+      const component = graph
+        .getComponents()
+        .find((c) => c.nodes.includes(node)) as CDGraph;
+      const acronym = acronyms[component.canonical()];
+
+      if (!acronym) return null;
+      res.push([new Name(acronym), [0]]);
+      continue;
+    }
+
+    // Orders the nodes along the path.
+    const neighbors = (j: number): number[] =>
+      nodes.filter((k) => k !== j && coxeter[j][k] !== 2);
+    const path = [nodes.find((j) => neighbors(j).length === 1) as number];
+    while (path.length < n) {
+      const next = neighbors(path[path.length - 1]).filter(
+        (j) => !path.includes(j)
+      );
+      path.push(next[0]);
+    }
+
+    // Regular polygons are truncated into polygons with twice the sides.
+    if (n === 2) {
+      const p = coxeter[path[0]][path[1]];
+      const rings = path.filter((j) => values[j] === "x").length;
+      res.push([new Polygon([rings === 2 ? 2 * p : p, 1]), [0]]);
+      continue;
+    }
+
+    // Reads the diagram from the end that gives the simplest name. Ties are
+    // broken in favor of the end with the special label, and then of the
+    // smallest ringed nodes.
+    let best: [ConstructionNode<unknown>, number[], boolean] | null = null;
+    for (const line of [path, path.slice().reverse()]) {
+      const rings: number[] = [];
+      for (let j = 0; j < n; j++) if (values[line[j]] === "x") rings.push(j);
+
+      const start = rings[0];
+      const offset = rings[rings.length - 1] - start;
+      if (start > 6 || offset > 7) continue;
+
+      const special = coxeter[line[0]][line[1]] !== 3;
+      const base = regularBase(name[0], n, special);
+      if (!base) continue;
+
+      if (
+        !best ||
+        start < best[1][0] ||
+        (start === best[1][0] && special && !best[2]) ||
+        (start === best[1][0] &&
+          special === best[2] &&
+          rings.join() < best[1].join())
+      )
+        best = [base, rings, special];
+    }
+
+    if (!best) return null;
+    res.push([best[0], best[1]]);
+  }
+
+  return res.length ? res : null;
+};
+
+/**
+ * A ConstructionNode of [[`Wythoff`]] type.
+ *
+ * @category ConstructionNode Types
+ */
+export class Wythoff extends Leaf<CDGraph> {
+  readonly type = Type.Wythoff;
+  child: CDGraph;
+  polytope: PolytopeB | undefined;
+  gender: Gender;
+
+  /** The regular polytope each component with ringed nodes is built from,
+   * along with its ringed nodes, or `null` if some component has no name. */
+  private components: [ConstructionNode<unknown>, number[]][] | null;
+
+  constructor(child: CDGraph) {
+    super();
+    this.child = child;
+    this.components = wythoffianComponents(child);
+
+    if (!this.components) this.gender = Gender.male;
+    else if (this.components.length === 1)
+      this.gender = this.components[0][0].gender;
+    else this.gender = Language.multiprismGender(this.components.length);
+  }
+
+  getName(): string {
+    if (!this.components) {
+      const diagram = this.child.canonical();
+      return acronyms[diagram] || diagram;
+    }
+
+    const names = this.components.map(([base, rings]) =>
+      Language.wythoffian(base.getName(), rings, { gender: base.gender })
+    );
+
+    // Components are combined via a prism product.
+    if (names.length === 1) return names[0];
+    return new Multiprism(names.map((name) => new Name(name))).getName();
+  }
+}
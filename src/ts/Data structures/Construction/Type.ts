@@ -101,6 +101,29 @@ enum Type {
    * Its name is generated by [[`Naming.cross`]].
    */
   Cross,
+
+  /**
+   * The corresponding ConstructionNode has two children `[node, rank]`,
+   * representing an element of the given rank of the polytope built by
+   * `node`.
+   * Its name is generated by [[`Language.element`]].
+   */
+  Element,
+
+  /**
+   * The corresponding ConstructionNode has a single child representing the
+   * polytope whose vertex figure is taken.
+   * Its name is generated by [[`Translation.get`]].
+   */
+  VertexFigure,
+
+  /**
+   * The corresponding ConstructionNode has the graph of a Coxeter diagram as a
+   * child, representing the polytope built from it by Wythoff's construction.
+   * Its name is generated by [[`Language.wythoffian`]], or is a Bowers-style
+   * acronym whenever the polytope has no such name.
+   */
+  Wythoff,
 }
 
 export default Type;
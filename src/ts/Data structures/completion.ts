@@ -0,0 +1,265 @@
+/**
+ * Contains an implementation of the Knuth–Bendix
+ * [[https://en.wikipedia.org/wiki/Knuth–Bendix_completion_algorithm|completion
+ * algorithm]], which turns a presentation of a group into a
+ * confluent rewriting system for a [[`RewriteGroup`]].
+ *
+ * Words use the same letters as in [[`enumerateCosets`]]: the i-th generator is
+ * `i`, and its inverse is `~i`. Words are ordered by shortlex, with letters
+ * ordered as `0 < ~0 < 1 < ~1 < …`.
+ *
+ * @packageDocumentation
+ * @module Completion
+ * @category Data structures
+ */
+
+import { column } from "./cosets";
+import { RewriteGroup, RewriteRule } from "./groups";
+
+/** The reasons why completion might stop before finding a confluent system. */
+export enum CompletionFailure {
+  /** The system has more rules than allowed. */
+  MaxRules,
+
+  /** Some rule has a longer left-hand side than allowed. */
+  MaxLength,
+}
+
+/** The limits within which completion must finish. */
+export interface CompletionOptions {
+  /** The maximum number of rules in the system. Defaults to 5000. */
+  maxRules?: number;
+
+  /** The maximum length of the left-hand side of a rule. Defaults to 64. */
+  maxLength?: number;
+}
+
+/** The result of [[`knuthBendix`]]. */
+export interface CompletionResult {
+  /** The rules of the rewriting system. Each rule rewrites a word into a
+   * smaller one in the shortlex order. */
+  rules: RewriteRule[];
+
+  /** Whether completion finished, in which case the system is confluent and
+   * rewrites every word into its shortlex normal form. */
+  confluent: boolean;
+
+  /** Why completion stopped early, if it did. */
+  failure?: CompletionFailure;
+
+  /** A description of the result. */
+  message: string;
+}
+
+/**
+ * Compares two words in the shortlex order.
+ *
+ * @param word1 The first word.
+ * @param word2 The second word.
+ * @returns -1 if the first word is smaller, 1 if it's greater, and 0 if both
+ * are equal.
+ */
+export const shortlex = function (
+  word1: number[],
+  word2: number[]
+): -1 | 0 | 1 {
+  if (word1.length !== word2.length)
+    return word1.length < word2.length ? -1 : 1;
+
+  for (let i = 0; i < word1.length; i++) {
+    const a = column(word1[i]),
+      b = column(word2[i]);
+
+    if (a !== b) return a < b ? -1 : 1;
+  }
+
+  return 0;
+};
+
+/**
+ * Helper function for [[`knuthBendix`]]. Finds the first occurrence of a
+ * subword in a word.
+ *
+ * @param word The word to search.
+ * @param subword The subword to find.
+ * @returns The index of the occurrence, or -1 if there is none.
+ */
+const indexOf = function (word: number[], subword: number[]): number {
+  outer: for (let i = 0; i <= word.length - subword.length; i++) {
+    for (let j = 0; j < subword.length; j++)
+      if (word[i + j] !== subword[j]) continue outer;
+
+    return i;
+  }
+
+  return -1;
+};
+
+/**
+ * Runs the Knuth–Bendix completion procedure on a presentation of a group.
+ * Rules cancelling each generator with its inverse are added automatically.
+ * Every time a rule is added, the left-hand sides of the other rules are
+ * checked for reducibility, and the overlaps of the new rule with every other
+ * one are resolved.
+ *
+ * @param generatorCount The number of generators of the group.
+ * @param relators The relators of the group, as words in the generators.
+ * @param options The limits within which completion must finish.
+ * @returns The rewriting system found, along with whether it's confluent.
+ */
+export const knuthBendix = function (
+  generatorCount: number,
+  relators: number[][],
+  options: CompletionOptions = {}
+): CompletionResult {
+  const maxRules = options.maxRules ?? 5000;
+  const maxLength = options.maxLength ?? 64;
+
+  // The rules, with null for those that have been removed.
+  const rules: (RewriteRule | null)[] = [];
+  let ruleCount = 0;
+  let failure: CompletionFailure | undefined;
+
+  const reduce = function (word: number[]): number[] {
+    outer: for (;;) {
+      for (let i = 0; i < rules.length; i++) {
+        const rule = rules[i];
+        if (!rule) continue;
+
+        const index = indexOf(word, rule.searchValue);
+        if (index !== -1) {
+          word = word
+            .slice(0, index)
+            .concat(
+              rule.replaceValue,
+              word.slice(index + rule.searchValue.length)
+            );
+          continue outer;
+        }
+      }
+
+      return word;
+    }
+  };
+
+  // Adds the rule corresponding to a pair of equal words, if needed. Returns
+  // whether completion can go on.
+  const equations: [number[], number[]][] = [];
+  const addEquations = function (): boolean {
+    while (equations.length) {
+      const [word1, word2] = equations.pop() as [number[], number[]];
+      const u = reduce(word1),
+        v = reduce(word2);
+
+      const cmp = shortlex(u, v);
+      if (!cmp) continue;
+      const rule = cmp > 0 ? new RewriteRule(u, v) : new RewriteRule(v, u);
+
+      if (rule.searchValue.length > maxLength) {
+        failure = CompletionFailure.MaxLength;
+        return false;
+      }
+
+      // Removes the rules the new one makes redundant, and simplifies the
+      // right-hand sides of the others.
+      rules.push(rule);
+      ruleCount++;
+
+      for (let i = 0; i < rules.length - 1; i++) {
+        const other = rules[i];
+        if (!other) continue;
+
+        if (indexOf(other.searchValue, rule.searchValue) !== -1) {
+          rules[i] = null;
+          ruleCount--;
+          equations.push([other.searchValue, other.replaceValue]);
+        } else other.replaceValue = reduce(other.replaceValue);
+      }
+
+      if (ruleCount > maxRules) {
+        failure = CompletionFailure.MaxRules;
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  // Adds the equation for every way in which the end of the left-hand side of
+  // a rule can overlap with the start of another.
+  const resolveOverlaps = function (
+    rule1: RewriteRule,
+    rule2: RewriteRule
+  ): void {
+    const lhs1 = rule1.searchValue,
+      lhs2 = rule2.searchValue;
+
+    for (let k = 1; k < Math.min(lhs1.length, lhs2.length); k++) {
+      let overlaps = true;
+      for (let j = 0; j < k && overlaps; j++)
+        if (lhs1[lhs1.length - k + j] !== lhs2[j]) overlaps = false;
+
+      if (overlaps) {
+        equations.push([
+          rule1.replaceValue.concat(lhs2.slice(k)),
+          lhs1.slice(0, lhs1.length - k).concat(rule2.replaceValue),
+        ]);
+      }
+    }
+  };
+
+  for (let i = 0; i < generatorCount; i++)
+    equations.push([[i, ~i], []], [[~i, i], []]);
+  for (let i = 0; i < relators.length; i++) equations.push([relators[i], []]);
+
+  let complete = addEquations();
+  for (let i = 0; complete && i < rules.length; i++) {
+    for (let j = 0; complete && j <= i; j++) {
+      const rule1 = rules[i],
+        rule2 = rules[j];
+      if (!rule1 || !rule2) continue;
+
+      resolveOverlaps(rule1, rule2);
+      if (i !== j) resolveOverlaps(rule2, rule1);
+      complete = addEquations();
+    }
+  }
+
+  const res = rules.filter((rule) => rule) as RewriteRule[];
+  let message: string;
+
+  if (failure === CompletionFailure.MaxRules)
+    message = "Completion exceeded " + maxRules + " rules.";
+  else if (failure === CompletionFailure.MaxLength)
+    message = "Completion found a rule longer than " + maxLength + " letters.";
+  else
+    message =
+      "Completion found a confluent system of " + res.length + " rules.";
+
+  return { rules: res, confluent: complete, failure, message };
+};
+
+/**
+ * Builds a [[`RewriteGroup`]] from a presentation, via [[`knuthBendix`]].
+ *
+ * @param generatorCount The number of generators of the group.
+ * @param relators The relators of the group, as words in the generators.
+ * @param options The limits within which completion must finish.
+ * @returns The group with the given presentation.
+ * @throws Will throw an error if completion doesn't finish within the limits.
+ * @example
+ * // The symmetry group of a cube.
+ * const relators = [[0, 0], [1, 1], [2, 2], [0, 1, 0, 1, 0, 1, 0, 1],
+ *   [1, 2, 1, 2, 1, 2], [0, 2, 0, 2]];
+ * console.log(fromRelators(3, relators).enumerateElements().length); // 48
+ */
+export const fromRelators = function (
+  generatorCount: number,
+  relators: number[][],
+  options: CompletionOptions = {}
+): RewriteGroup {
+  const result = knuthBendix(generatorCount, relators, options);
+  if (!result.confluent) throw new Error(result.message);
+
+  return new RewriteGroup(generatorCount, result.rules);
+};
@@ -0,0 +1,268 @@
+/**
+ * Contains an implementation of the
+ * [[https://en.wikipedia.org/wiki/Todd–Coxeter_algorithm|Todd–Coxeter
+ * algorithm]], which enumerates the cosets of a subgroup of a group given by
+ * generators and relators.
+ *
+ * Words in the generators are stored as arrays of letters. The i-th generator
+ * is represented by `i`, and its inverse by `~i`, that is, by `-i - 1`.
+ *
+ * @packageDocumentation
+ * @module Cosets
+ * @category Data structures
+ */
+
+/** The default maximum number of cosets that can be defined during an
+ * enumeration. */
+const MAX_COSETS = 1000000;
+
+/**
+ * Gets the column of a coset table corresponding to a letter. This is also
+ * the position of the letter in the order `0 < ~0 < 1 < ~1 < …`.
+ *
+ * @param letter A generator `i`, or the inverse `~i` of a generator.
+ * @returns The index of the column of the letter.
+ */
+export const column = function (letter: number): number {
+  return letter >= 0 ? 2 * letter : 2 * ~letter + 1;
+};
+
+/**
+ * Inverts a word in the generators.
+ *
+ * @param word The word to invert.
+ * @returns The inverse word.
+ */
+export const invertWord = function (word: number[]): number[] {
+  return word.map((letter) => ~letter).reverse();
+};
+
+/**
+ * Stores how the generators of a group act on the cosets of some subgroup.
+ * Coset 0 is always the subgroup itself.
+ *
+ * @category Data structures
+ */
+export class CosetTable {
+  /** The number of generators of the group. */
+  generatorCount: number;
+
+  /** The image of each coset under each generator and its inverse. Column
+   * `2i` corresponds to the i-th generator, and column `2i + 1` to its
+   * inverse. */
+  table: number[][];
+
+  /**
+   * Constructor for the `CosetTable` class.
+   *
+   * @param generatorCount The number of generators of the group.
+   * @param table The image of each coset under each letter.
+   */
+  constructor(generatorCount: number, table: number[][]) {
+    this.generatorCount = generatorCount;
+    this.table = table;
+  }
+
+  /**
+   * Gets the number of cosets, that is, the index of the subgroup.
+   *
+   * @returns The number of cosets.
+   */
+  size(): number {
+    return this.table.length;
+  }
+
+  /**
+   * Applies a word to a coset, one letter at a time.
+   *
+   * @param coset The index of the coset.
+   * @param word The word to apply.
+   * @returns The index of the resulting coset.
+   */
+  apply(coset: number, word: number[]): number {
+    for (let i = 0; i < word.length; i++)
+      coset = this.table[coset][column(word[i])];
+
+    return coset;
+  }
+
+  /**
+   * Gets the permutation of the cosets induced by a generator.
+   *
+   * @param generator The index of the generator.
+   * @returns The image of each coset under the generator.
+   */
+  permutation(generator: number): number[] {
+    return this.table.map((row) => row[2 * generator]);
+  }
+
+  /**
+   * Finds a shortest word taking the subgroup to each coset, via a
+   * breadth-first search.
+   *
+   * @returns A word for each coset.
+   */
+  words(): number[][] {
+    const res: number[][] = [[]];
+
+    const queue = [0];
+    for (let i = 0; i < queue.length; i++) {
+      const coset = queue[i];
+
+      for (let j = 0; j < 2 * this.generatorCount; j++) {
+        const image = this.table[coset][j];
+
+        if (res[image] === undefined) {
+          res[image] = res[coset].concat([j % 2 ? ~(j >> 1) : j >> 1]);
+          queue.push(image);
+        }
+      }
+    }
+
+    return res;
+  }
+}
+
+/**
+ * Enumerates the cosets of a subgroup of a finitely presented group, via the
+ * Hasle–Lindenberg–Todd strategy. Coincidences between cosets are processed as
+ * soon as they're found.
+ *
+ * @param generatorCount The number of generators of the group.
+ * @param relators The relators of the group, as words in the generators.
+ * @param subgroupGenerators The generators of the subgroup, as words in the
+ * generators of the group. Defaults to the trivial subgroup, in which case the
+ * cosets are the elements of the group.
+ * @param maxCosets The maximum number of cosets to define during the
+ * enumeration. Intermediate tables can be much larger than the final one.
+ * @returns The coset table of the subgroup.
+ * @throws Will throw an error if more than `maxCosets` cosets are needed,
+ * which is always the case when the subgroup has infinite index.
+ */
+export const enumerateCosets = function (
+  generatorCount: number,
+  relators: number[][],
+  subgroupGenerators: number[][] = [],
+  maxCosets = MAX_COSETS
+): CosetTable {
+  const columns = 2 * generatorCount;
+  const table: number[][] = [new Array(columns).fill(-1)];
+
+  // The representative of each coset, smaller than itself for dead cosets.
+  const parent = [0];
+
+  // The relators, rewritten in terms of columns.
+  const rels = relators.map((r) => r.map(column));
+
+  const find = function (c: number): number {
+    let root = c;
+    while (parent[root] !== root) root = parent[root];
+
+    // Path compression.
+    while (parent[c] !== root) {
+      const next = parent[c];
+      parent[c] = root;
+      c = next;
+    }
+
+    return root;
+  };
+
+  const define = function (c: number, x: number): void {
+    if (table.length >= maxCosets)
+      throw new Error("Coset enumeration exceeded " + maxCosets + " cosets!");
+
+    const d = table.length;
+    table.push(new Array(columns).fill(-1));
+    parent.push(d);
+    table[c][x] = d;
+    table[d][x ^ 1] = c;
+  };
+
+  // Identifies two cosets, along with every pair of cosets this forces.
+  const coincidence = function (a: number, b: number): void {
+    const queue: number[] = [];
+    const merge = function (k: number, l: number): void {
+      k = find(k);
+      l = find(l);
+      if (k === l) return;
+      if (k > l) [k, l] = [l, k];
+
+      parent[l] = k;
+      queue.push(l);
+    };
+
+    merge(a, b);
+    for (let i = 0; i < queue.length; i++) {
+      const e = queue[i];
+
+      for (let x = 0; x < columns; x++) {
+        const f = table[e][x];
+        if (f < 0) continue;
+
+        table[f][x ^ 1] = -1;
+        const e1 = find(e),
+          f1 = find(f);
+
+        if (table[e1][x] >= 0) merge(f1, table[e1][x]);
+        else if (table[f1][x ^ 1] >= 0) merge(e1, table[f1][x ^ 1]);
+        else {
+          table[e1][x] = f1;
+          table[f1][x ^ 1] = e1;
+        }
+      }
+    }
+  };
+
+  // Traces a relator from a coset in both directions, defining new cosets
+  // until it closes up.
+  const scanAndFill = function (c: number, word: number[]): void {
+    let f = c,
+      b = c,
+      i = 0,
+      j = word.length - 1;
+
+    for (;;) {
+      while (i <= j && table[f][word[i]] >= 0) f = table[f][word[i++]];
+      if (i > j) {
+        if (f !== b) coincidence(f, b);
+        return;
+      }
+
+      while (j >= i && table[b][word[j] ^ 1] >= 0) b = table[b][word[j--] ^ 1];
+      if (j < i) {
+        coincidence(f, b);
+        return;
+      } else if (i === j) {
+        table[f][word[i]] = b;
+        table[b][word[i] ^ 1] = f;
+        return;
+      }
+
+      define(f, word[i]);
+    }
+  };
+
+  for (let i = 0; i < subgroupGenerators.length; i++)
+    scanAndFill(0, subgroupGenerators[i].map(column));
+
+  for (let c = 0; c < table.length; c++) {
+    for (let i = 0; i < rels.length && parent[c] === c; i++)
+      scanAndFill(c, rels[i]);
+
+    for (let x = 0; x < columns && parent[c] === c; x++)
+      if (table[c][x] < 0) define(c, x);
+  }
+
+  // Renumbers the live cosets.
+  const indices: number[] = [];
+  let count = 0;
+  for (let c = 0; c < table.length; c++)
+    if (parent[c] === c) indices[c] = count++;
+
+  const res: number[][] = [];
+  for (let c = 0; c < table.length; c++)
+    if (parent[c] === c) res.push(table[c].map((d) => indices[find(d)]));
+
+  return new CosetTable(generatorCount, res);
+};
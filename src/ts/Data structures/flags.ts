@@ -1,4 +1,5 @@
 import type { ConcreteGroup, ConcreteGroupElement } from "./groups";
+import type { PolytopeC } from "../polytopes/types";
 
 /**
  * Represents a [[https://en.wikipedia.org/wiki/Flag_(geometry)|flag]] in a
@@ -162,3 +163,146 @@ export class FlagMap<T, U> {
     return newMap;
   }
 }
+
+/**
+ * The flags of a [[`PolytopeC`]], each stored as the list of the indices of
+ * its elements from the vertex up to the component, along with the adjacent
+ * flag for each rank.
+ */
+export class FlagList {
+  /** The flags of the polytope. The r-th entry of each flag is the index of
+   * its element of rank r. */
+  flags: number[][] = [];
+
+  /** The index of the flag that differs from each flag only in the element of
+   * a given rank, or -1 if there isn't exactly one such flag. */
+  adjacencies: number[][] = [];
+
+  /**
+   * Constructor for the FlagList class. Enumerates the flags of a polytope
+   * and their adjacencies.
+   *
+   * @param P The polytope whose flags are enumerated.
+   */
+  constructor(P: PolytopeC) {
+    const elementList = P.elementList;
+    const n = P.dimensions;
+    if (n < 0 || !elementList[0]) return;
+
+    // The flags of a point are its vertices.
+    if (n === 0) {
+      for (let i = 0; i < elementList[0].length; i++) {
+        this.flags.push([i]);
+        this.adjacencies.push([]);
+      }
+      return;
+    }
+
+    // Enumerates the flags from the top down.
+    const flag: number[] = [];
+    const enumerate = (rank: number, i: number): void => {
+      flag[rank] = i;
+      if (!rank) {
+        this.flags.push(flag.slice());
+        return;
+      }
+
+      const subelements = elementList[rank][i] as number[];
+      for (let j = 0; j < subelements.length; j++)
+        enumerate(rank - 1, subelements[j]);
+    };
+
+    for (let i = 0; i < (elementList[n] as unknown[]).length; i++)
+      enumerate(n, i);
+
+    const indices = new Map<string, number>();
+    for (let i = 0; i < this.flags.length; i++)
+      indices.set(this.flags[i].join(), i);
+
+    // The superelements of each element, which are usually much fewer than
+    // its subelements.
+    const superelements: number[][][] = [];
+    for (let r = 0; r < n; r++) {
+      superelements.push([]);
+
+      const elements = elementList[r + 1] as number[][];
+      for (let i = 0; i < elements.length; i++) {
+        for (let j = 0; j < elements[i].length; j++) {
+          const el = elements[i][j];
+          (superelements[r][el] = superelements[r][el] ?? []).push(i);
+        }
+      }
+    }
+
+    // Finds the adjacent flag for each rank.
+    for (let i = 0; i < this.flags.length; i++) {
+      const F = this.flags[i];
+      const adjacencies: number[] = [];
+
+      for (let r = 0; r < n; r++) {
+        // The elements of rank r between the elements of ranks r - 1 and
+        // r + 1 of the flag, other than its own.
+        const candidates = r
+          ? superelements[r - 1][F[r - 1]].filter(
+              (x) => x !== F[r] && superelements[r][x].includes(F[r + 1])
+            )
+          : (elementList[r + 1][F[r + 1]] as number[]).filter(
+              (x) => x !== F[0]
+            );
+
+        if (candidates.length !== 1) {
+          adjacencies.push(-1);
+          continue;
+        }
+
+        const G = F.slice();
+        G[r] = candidates[0];
+        const index = indices.get(G.join());
+        adjacencies.push(index === undefined ? -1 : index);
+      }
+
+      this.adjacencies.push(adjacencies);
+    }
+  }
+
+  /**
+   * Finds a path of flag adjacencies from a base flag to every flag in its
+   * connected component, via a breadth-first search.
+   *
+   * @param baseFlag The index of the flag the paths start from.
+   * @returns The ranks of the adjacencies leading to each flag, or `undefined`
+   * for the flags that can't be reached.
+   */
+  paths(baseFlag: number): number[][] {
+    const res: number[][] = [];
+    res[baseFlag] = [];
+
+    const queue = [baseFlag];
+    for (let i = 0; i < queue.length; i++) {
+      const adjacencies = this.adjacencies[queue[i]];
+
+      for (let r = 0; r < adjacencies.length; r++) {
+        const flag = adjacencies[r];
+        if (flag === -1 || res[flag]) continue;
+
+        res[flag] = res[queue[i]].concat([r]);
+        queue.push(flag);
+      }
+    }
+
+    return res;
+  }
+
+  /**
+   * Follows a path of flag adjacencies.
+   *
+   * @param flag The index of the flag the path starts from.
+   * @param path The ranks of the adjacencies to follow, in order.
+   * @returns The index of the flag the path leads to.
+   */
+  follow(flag: number, path: number[]): number {
+    for (let i = 0; i < path.length; i++)
+      flag = this.adjacencies[flag][path[i]];
+    return flag;
+  }
+}
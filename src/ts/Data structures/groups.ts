@@ -1,4 +1,7 @@
 import * as MathJS from "mathjs";
+import type { CDGraph } from "./CD";
+import { column, CosetTable, enumerateCosets, invertWord } from "./cosets";
+import { mirrorNormals } from "../polytopes/classes/Wythoff";
 
 /**
  * A class for abstract groups.
@@ -12,6 +15,9 @@ export default abstract class Group<T> {
   /** The "dimension" of the group, whatever that means for a given group. */
   abstract dimension: number;
 
+  /** The Cayley table of the group, once it's been calculated. */
+  private cayley?: number[][];
+
   /**
    * Returns the group identity.
    *
@@ -83,6 +89,53 @@ export default abstract class Group<T> {
 
     return elems;
   }
+
+  /**
+   * Gets a string that identifies a group element. Elements that are equal
+   * must get the same string, so the default implementation assumes that
+   * elements are stored in some normal form.
+   *
+   * @param elem The group element.
+   * @returns The identifier of the element.
+   */
+  elementKey(elem: T): string {
+    return String(elem);
+  }
+
+  /**
+   * Gets the Cayley table of the group, which describes how each generator
+   * acts on the elements by right multiplication. The elements are indexed in
+   * the order in which a breadth-first search from the identity finds them,
+   * so that the identity has index 0. The table is only calculated once.
+   *
+   * @returns The index of the product of each element by each generator.
+   */
+  cayleyTable(): number[][] {
+    if (this.cayley) return this.cayley;
+
+    const elements = [this.identity()];
+    const indices = new Map([[this.elementKey(elements[0]), 0]]);
+    const res: number[][] = this.generators.map(() => []);
+
+    for (let i = 0; i < elements.length; i++) {
+      for (let j = 0; j < this.generators.length; j++) {
+        const elem = this.multiply(elements[i], this.generators[j]);
+        const key = this.elementKey(elem);
+        let index = indices.get(key);
+
+        if (index === undefined) {
+          index = elements.length;
+          indices.set(key, index);
+          elements.push(elem);
+        }
+
+        res[j][i] = index;
+      }
+    }
+
+    this.cayley = res;
+    return res;
+  }
 }
 
 /**
@@ -270,29 +323,531 @@ export class RewriteGroup extends Group<number[]> {
   }
 
   /**
-   * Inverts a group element. Assumes that every one of the generators is of
-   * order 2.
+   * Inverts a group element. The inverse of the i-th generator is written as
+   * `~i`, and is then simplified by the rewrite system. Systems built by
+   * [[`knuthBendix`]] always have rules to do so.
    *
    * @param elem The element to invert.
    * @returns The group inverse of the element.
    */
   invert(elem: number[]): number[] {
-    return elem.reverse();
+    return this.simplifyElement(invertWord(elem));
   }
 
   equal(elem1: number[], elem2: number[]): boolean {
     return this.compare(elem1, elem2) === 0;
   }
 
+  /**
+   * Compares two group elements in the shortlex order, with letters ordered
+   * as `0 < ~0 < 1 < ~1 < …`.
+   *
+   * @param elem1 The first element to compare.
+   * @param elem2 The second element to compare.
+   * @returns Whether one of the elements is greater, or if both are equal.
+   */
   compare(elem1: number[], elem2: number[]): -1 | 0 | 1 {
-    if (elem1.length == elem2.length) {
-      if (elem1 < elem2) return -1;
-      if (elem1 > elem2) return 1;
-      return 0;
+    if (elem1.length !== elem2.length)
+      return elem1.length < elem2.length ? -1 : 1;
+
+    for (let i = 0; i < elem1.length; i++) {
+      const a = column(elem1[i]),
+        b = column(elem2[i]);
+
+      if (a !== b) return a < b ? -1 : 1;
+    }
+
+    return 0;
+  }
+}
+
+/**
+ * Gets the Schläfli matrix associated to a Coxeter matrix. Each entry (i, j)
+ * is –2cos(π / m), where m is the corresponding entry of the Coxeter matrix.
+ *
+ * @param coxeterMatrix The Coxeter matrix.
+ * @returns The Schläfli matrix.
+ */
+const schlaflian = function (coxeterMatrix: number[][]): number[][] {
+  return coxeterMatrix.map((row) =>
+    row.map((m) => (m === 2 ? 0 : -2 * Math.cos(Math.PI / m)))
+  );
+};
+
+/**
+ * Builds the Coxeter matrix of a linear Coxeter diagram.
+ *
+ * @param labels The labels of the edges of the diagram, in order.
+ * @returns The Coxeter matrix of the diagram.
+ */
+const linearCoxeterMatrix = function (labels: number[]): number[][] {
+  const n = labels.length + 1;
+  const res: number[][] = [];
+
+  for (let i = 0; i < n; i++) {
+    res.push(new Array(n).fill(2));
+    res[i][i] = 1;
+  }
+
+  for (let i = 0; i < labels.length; i++)
+    res[i][i + 1] = res[i + 1][i] = labels[i];
+
+  return res;
+};
+
+/**
+ * A class for finite [[https://en.wikipedia.org/wiki/Coxeter_group|Coxeter
+ * groups]], defined by their Coxeter matrices. Elements are stored as their
+ * shortlex normal forms, that is, as the lexicographically least among the
+ * shortest words in the generators that represent them.
+ *
+ * Normal forms are found through the geometric representation of the group.
+ * An element is determined by the image of a point in the interior of the
+ * fundamental chamber, and the first letter of its normal form is the least
+ * generator whose mirror separates this image from the chamber.
+ */
+export class CoxeterGroup extends Group<number[]> {
+  generators: number[][];
+  dimension: number;
+
+  /** The Coxeter matrix of the group. Entry (i, j) is the order of the product
+   * of the i-th and j-th generators. */
+  coxeterMatrix: number[][];
+
+  /** The unit normals of the mirrors of the geometric representation. Each
+   * of them only has nonzero coordinates up to its own index. */
+  readonly normals: number[][];
+
+  /** A point in the interior of the fundamental chamber. */
+  private base: number[];
+
+  /**
+   * Constructor for the `CoxeterGroup` class.
+   *
+   * @param coxeterMatrix The Coxeter matrix of the group.
+   * @throws Will throw an error if the group isn't finite.
+   */
+  constructor(coxeterMatrix: number[][]) {
+    super();
+    const n = coxeterMatrix.length;
+
+    this.coxeterMatrix = coxeterMatrix;
+    this.dimension = n;
+    this.generators = [];
+    for (let i = 0; i < n; i++) this.generators.push([i]);
+
+    this.normals = mirrorNormals(schlaflian(coxeterMatrix));
+
+    // The point at distance 1 from every mirror.
+    this.base = [];
+    for (let i = 0; i < n; i++) {
+      let x = 1;
+      for (let j = 0; j < i; j++) x -= this.normals[i][j] * this.base[j];
+      this.base.push(x / this.normals[i][i]);
+    }
+  }
+
+  /**
+   * Reflects a point on one of the mirrors of the geometric representation.
+   *
+   * @param point The point to reflect.
+   * @param generator The index of the mirror.
+   * @returns The reflected point.
+   */
+  private reflect(point: number[], generator: number): number[] {
+    const normal = this.normals[generator];
+    let dot = 0;
+    for (let i = 0; i < this.dimension; i++) dot += point[i] * normal[i];
+
+    return point.map((x, i) => x - 2 * dot * normal[i]);
+  }
+
+  /**
+   * Applies a word in the generators to the base point.
+   *
+   * @param word The word to apply.
+   * @returns The image of the base point.
+   */
+  private apply(word: number[]): number[] {
+    let point = this.base;
+    for (let i = word.length - 1; i >= 0; i--)
+      point = this.reflect(point, word[i]);
+
+    return point;
+  }
+
+  /**
+   * Gets the normal form of the element sending the base point to a given
+   * point in its orbit.
+   *
+   * @param point The image of the base point.
+   * @returns The shortlex normal form of the element.
+   */
+  private normalForm(point: number[]): number[] {
+    const res: number[] = [];
+
+    outer: for (;;) {
+      for (let i = 0; i < this.dimension; i++) {
+        let dot = 0;
+        for (let j = 0; j < this.dimension; j++)
+          dot += point[j] * this.normals[i][j];
+
+        if (dot < 0) {
+          res.push(i);
+          point = this.reflect(point, i);
+          continue outer;
+        }
+      }
+
+      return res;
+    }
+  }
+
+  /**
+   * Reduces a word in the generators to its normal form.
+   *
+   * @param elem The word to reduce.
+   * @returns The normal form of the word.
+   */
+  simplifyElement(elem: number[]): number[] {
+    return this.normalForm(this.apply(elem));
+  }
+
+  /**
+   * Gets the relators of the Coxeter presentation of the group, namely,
+   * (s<sub>i</sub>s<sub>j</sub>)<sup>m<sub>ij</sub></sup> for every pair of
+   * generators.
+   *
+   * @returns The relators, as words in the generators.
+   */
+  relators(): number[][] {
+    const res: number[][] = [];
+
+    for (let i = 0; i < this.dimension; i++) {
+      res.push([i, i]);
+
+      for (let j = i + 1; j < this.dimension; j++) {
+        const word: number[] = [];
+        for (let k = 0; k < this.coxeterMatrix[i][j]; k++) word.push(i, j);
+        res.push(word);
+      }
+    }
+
+    return res;
+  }
+
+  identity(): number[] {
+    return [];
+  }
+
+  multiply(elem1: number[], elem2: number[]): number[] {
+    return this.simplifyElement(elem1.concat(elem2));
+  }
+
+  invert(elem: number[]): number[] {
+    return this.simplifyElement(elem.slice().reverse());
+  }
+
+  equal(elem1: number[], elem2: number[]): boolean {
+    return this.compare(elem1, elem2) === 0;
+  }
+
+  compare(elem1: number[], elem2: number[]): -1 | 0 | 1 {
+    if (elem1.length !== elem2.length)
+      return elem1.length < elem2.length ? -1 : 1;
+
+    for (let i = 0; i < elem1.length; i++) {
+      if (elem1[i] < elem2[i]) return -1;
+      if (elem1[i] > elem2[i]) return 1;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Enumerates all of the elements of the group, by exploring the orbit of the
+   * base point.
+   *
+   * @returns An array of all of the group elements, sorted by length.
+   */
+  enumerateElements(): number[][] {
+    const key = (point: number[]): string =>
+      point.map((x) => Math.round(x * 1e6)).join();
+
+    const points = [this.base];
+    const res: number[][] = [[]];
+    const found = new Set([key(this.base)]);
+
+    for (let i = 0; i < points.length; i++) {
+      for (let j = 0; j < this.dimension; j++) {
+        const point = this.reflect(points[i], j);
+        const k = key(point);
+
+        if (!found.has(k)) {
+          found.add(k);
+          points.push(point);
+          res.push(this.normalForm(point));
+        }
+      }
+    }
+
+    return res;
+  }
+
+  /**
+   * Calculates the number of elements of the group.
+   *
+   * @returns The order of the group.
+   */
+  order(): number {
+    return this.enumerateElements().length;
+  }
+}
+
+/**
+ * A class for finite groups given by a presentation, that is, by generators
+ * and relators. The elements are enumerated via [[`enumerateCosets`]], and
+ * stored as their indices in the coset table of the trivial subgroup. The
+ * identity always has index 0.
+ */
+export class PresentationGroup extends Group<number> {
+  generators: number[];
+  dimension: number;
+
+  /** The relators of the group, as words in the generators. */
+  relators: number[][];
+
+  /** The coset table of the trivial subgroup, which describes how each
+   * generator acts on the elements by right multiplication. */
+  table: CosetTable;
+
+  /** A shortest word in the generators for each element. */
+  private words: number[][];
+
+  /**
+   * Constructor for the `PresentationGroup` class.
+   *
+   * @param generatorCount The number of generators of the group.
+   * @param relators The relators of the group, as words in the generators.
+   * Inverses of generators are written as `~i`.
+   * @param maxCosets The maximum number of cosets to define while enumerating
+   * the elements of the group.
+   * @throws Will throw an error if the group is infinite or too big.
+   */
+  constructor(
+    generatorCount: number,
+    relators: number[][],
+    maxCosets?: number
+  ) {
+    super();
+    this.dimension = generatorCount;
+    this.relators = relators;
+    this.table = enumerateCosets(generatorCount, relators, [], maxCosets);
+    this.words = this.table.words();
+
+    this.generators = [];
+    for (let i = 0; i < generatorCount; i++)
+      this.generators.push(this.table.apply(0, [i]));
+  }
+
+  identity(): number {
+    return 0;
+  }
+
+  multiply(elem1: number, elem2: number): number {
+    return this.table.apply(elem1, this.words[elem2]);
+  }
+
+  invert(elem: number): number {
+    return this.table.apply(0, invertWord(this.words[elem]));
+  }
+
+  equal(elem1: number, elem2: number): boolean {
+    return elem1 === elem2;
+  }
+
+  compare(elem1: number, elem2: number): -1 | 0 | 1 {
+    return elem1 < elem2 ? -1 : elem1 > elem2 ? 1 : 0;
+  }
+
+  /**
+   * Enumerates all of the elements of the group. Since these have already been
+   * found, this is immediate.
+   *
+   * @returns An array of all of the group elements.
+   */
+  enumerateElements(): number[] {
+    const res: number[] = [];
+    for (let i = 0; i < this.table.size(); i++) res.push(i);
+    return res;
+  }
+
+  /**
+   * Calculates the number of elements of the group.
+   *
+   * @returns The order of the group.
+   */
+  order(): number {
+    return this.table.size();
+  }
+
+  /**
+   * Gets the permutation representation of the group given by right
+   * multiplication on its elements.
+   *
+   * @returns The image of each element under each generator.
+   */
+  permutations(): number[][] {
+    const res: number[][] = [];
+    for (let i = 0; i < this.dimension; i++)
+      res.push(this.table.permutation(i));
+
+    return res;
+  }
+
+  /**
+   * Gets the Cayley table of the group. Since the elements are already indices,
+   * this is just the permutation representation.
+   *
+   * @returns The image of each element under each generator.
+   */
+  cayleyTable(): number[][] {
+    return this.permutations();
+  }
+
+  /**
+   * Gets a shortest word in the generators that represents an element.
+   *
+   * @param elem The element.
+   * @returns A word for the element.
+   */
+  wordOf(elem: number): number[] {
+    return this.words[elem].slice();
+  }
+
+  /**
+   * Enumerates the cosets of the subgroup generated by some of the generators.
+   *
+   * @param generators The indices of the generators of the subgroup.
+   * @returns The coset table of the subgroup.
+   */
+  subgroupCosets(generators: number[]): CosetTable {
+    return enumerateCosets(
+      this.dimension,
+      this.relators,
+      generators.map((i) => [i])
+    );
+  }
+}
+
+/**
+ * A class for finite groups given by their Cayley tables, such as the
+ * symmetry groups found by [[`symmetries`]]. Elements are stored as their
+ * indices in the table, and the identity has index 0.
+ */
+export class CayleyGroup extends Group<number> {
+  generators: number[];
+  dimension: number;
+
+  /** The index of the product of each element by each generator. */
+  table: number[][];
+
+  /** The index of the product of each element by the inverse of each
+   * generator. */
+  private inverseTable: number[][];
+
+  /** A shortest word in the generators for each element. */
+  private words: number[][];
+
+  /**
+   * Constructor for the `CayleyGroup` class.
+   *
+   * @param table The index of the product of each element by each generator.
+   */
+  constructor(table: number[][]) {
+    super();
+    this.dimension = table.length;
+    this.table = table;
+    this.generators = table.map((row) => row[0]);
+
+    this.inverseTable = table.map((row) => {
+      const res: number[] = [];
+      for (let i = 0; i < row.length; i++) res[row[i]] = i;
+      return res;
+    });
+
+    this.words = [[]];
+    const queue = [0];
+    for (let i = 0; i < queue.length; i++) {
+      for (let j = 0; j < table.length; j++) {
+        const image = table[j][queue[i]];
+
+        if (!this.words[image]) {
+          this.words[image] = this.words[queue[i]].concat([j]);
+          queue.push(image);
+        }
+      }
     }
+  }
+
+  identity(): number {
+    return 0;
+  }
 
-    if (elem1.length < elem2.length) return -1;
-    return 1;
+  multiply(elem1: number, elem2: number): number {
+    const word = this.words[elem2];
+    for (let i = 0; i < word.length; i++) elem1 = this.table[word[i]][elem1];
+    return elem1;
+  }
+
+  invert(elem: number): number {
+    const word = this.words[elem];
+    let res = 0;
+    for (let i = word.length - 1; i >= 0; i--)
+      res = this.inverseTable[word[i]][res];
+
+    return res;
+  }
+
+  equal(elem1: number, elem2: number): boolean {
+    return elem1 === elem2;
+  }
+
+  compare(elem1: number, elem2: number): -1 | 0 | 1 {
+    return elem1 < elem2 ? -1 : elem1 > elem2 ? 1 : 0;
+  }
+
+  /**
+   * Enumerates all of the elements of the group, which are just the indices
+   * of the table.
+   *
+   * @returns An array of all of the group elements.
+   */
+  enumerateElements(): number[] {
+    return this.words.map((_w, i) => i);
+  }
+
+  /**
+   * Calculates the number of elements of the group.
+   *
+   * @returns The order of the group.
+   */
+  order(): number {
+    return this.words.length;
+  }
+
+  cayleyTable(): number[][] {
+    return this.table;
+  }
+
+  /**
+   * Gets a shortest word in the generators that represents an element.
+   *
+   * @param elem The element.
+   * @returns A word for the element.
+   */
+  wordOf(elem: number): number[] {
+    return this.words[elem].slice();
   }
 }
 
@@ -315,8 +870,9 @@ export class ConcreteGroupElement<T> {
 /**
  * A class for groups with a matrix representation and an underlying "concrete"
  * abstract group. In practice, the concrete group used is always a
- * [[`RewriteGroup`]]. This way, we can both mitigate the floating point errors
- * and the comparatively slow algorithms for pure matrix groups.
+ * [[`RewriteGroup`]], a [[`CoxeterGroup`]] or a [[`PresentationGroup`]]. This
+ * way, we can both mitigate the floating point errors and the comparatively
+ * slow algorithms for pure matrix groups.
  *
  * @typeParam T The type of the [[`groupElement`]].
  */
@@ -385,13 +941,91 @@ export class ConcreteGroup<T> extends Group<ConcreteGroupElement<T>> {
     return this.abstractGroup.compare(elem1.groupElement, elem2.groupElement);
   }
 
+  elementKey(elem: ConcreteGroupElement<T>): string {
+    return this.abstractGroup.elementKey(elem.groupElement);
+  }
+
+  /**
+   * Gets the Cayley table of the abstract group, which avoids multiplying any
+   * matrices.
+   *
+   * @returns The index of the product of each element by each generator.
+   */
+  cayleyTable(): number[][] {
+    return this.abstractGroup.cayleyTable();
+  }
+
+  /**
+   * Calculates the matrix of every element of the group, indexed as in the
+   * [[`cayleyTable`]].
+   *
+   * @returns The matrix of each element, as an array of rows.
+   */
+  elementMatrices(): number[][][] {
+    const table = this.cayleyTable();
+    const generators = this.generators.map(
+      (gen) => gen.matrix.toArray() as number[][]
+    );
+    const n = this.dimension;
+
+    const identity: number[][] = [];
+    for (let i = 0; i < n; i++) {
+      identity.push(new Array(n).fill(0));
+      identity[i][i] = 1;
+    }
+
+    // Multiplies the matrices along the tree of the breadth-first search that
+    // indexed the elements.
+    const res = [identity];
+    const queue = [0];
+    for (let i = 0; i < queue.length; i++) {
+      for (let j = 0; j < generators.length; j++) {
+        const index = table[j][queue[i]];
+        if (res[index]) continue;
+
+        const A = res[queue[i]],
+          B = generators[j];
+        res[index] = A.map((row) =>
+          B[0].map((_x, l) => row.reduce((s, y, k) => s + y * B[k][l], 0))
+        );
+        queue.push(index);
+      }
+    }
+
+    return res;
+  }
+
+  /**
+   * Generates a group from matrices for its generators and a presentation.
+   * The abstract group is a [[`PresentationGroup`]], whose elements are found
+   * via coset enumeration.
+   *
+   * @param generators The matrices of the generators.
+   * @param relators The relators of the group, as words in the generators.
+   * @returns The group with the given generators and relators.
+   * @throws Will throw an error if the group is infinite or too big.
+   * @example
+   * // The symmetry group of a square, as generated by two reflections.
+   * const s = MathJS.matrix([[-1, 0], [0, 1]]);
+   * const t = MathJS.matrix([[0, 1], [1, 0]]);
+   * const relators = [[0, 0], [1, 1], [0, 1, 0, 1, 0, 1, 0, 1]];
+   * console.log(ConcreteGroup.fromPresentation([s, t], relators));
+   */
+  static fromPresentation(
+    generators: MathJS.Matrix[],
+    relators: number[][]
+  ): ConcreteGroup<number> {
+    return new ConcreteGroup(
+      generators,
+      new PresentationGroup(generators.length, relators)
+    );
+  }
+
   /**
    * Generates the BC(n) symmetry group, which is the symmetry group of an
    * [[https://polytope.miraheze.org/wiki/Hypercube|n-hypercube]].
    *
    * @param n The number of dimensions of the symmetry group.
-   * @todo Currently, this is hardcoded to work only up to n = 4! We ought to
-   * fix that.
    * @returns The BC(n) symmetry group.
    * @example
    * // BC(4) is generated by the following matrices:
@@ -418,91 +1052,152 @@ export class ConcreteGroup<T> extends Group<ConcreteGroupElement<T>> {
       symmetryGens.push(threeNode);
     }
 
-    // Using a RewriteGroup here might be better but generating those is
-    // slightly unpleasant.
-    // 3D and 4D RewriteGroups for debugging toPolytopeS.
-    const abstractSymmetries = new RewriteGroup(4, [
-      new RewriteRule([0, 0], []),
-      new RewriteRule([1, 1], []),
-      new RewriteRule([2, 2], []),
-      new RewriteRule([3, 3], []),
-      new RewriteRule([1, 0, 1, 0], [0, 1, 0, 1]),
-      new RewriteRule([2, 0], [0, 2]),
-      new RewriteRule([3, 0], [0, 3]),
-      new RewriteRule([3, 1], [1, 3]),
-      new RewriteRule([2, 1, 2], [1, 2, 1]),
-      new RewriteRule([3, 2, 3], [2, 3, 2]),
-      new RewriteRule([2, 1, 0, 2], [1, 2, 1, 0]),
-      new RewriteRule([3, 2, 1, 3], [2, 3, 2, 1]),
-      new RewriteRule([3, 2, 1, 0, 3], [2, 3, 2, 1, 0]),
-      new RewriteRule([2, 1, 0, 1, 2, 1], [1, 2, 1, 0, 1, 2]),
-      new RewriteRule([3, 2, 1, 0, 1, 3], [2, 3, 2, 1, 0, 1]),
-      new RewriteRule([3, 2, 1, 0, 1, 2, 3, 2], [2, 3, 2, 1, 0, 1, 2, 3]),
-    ]);
-
-    console.warn("Dimensional special case enabled.");
+    const labels: number[] = [];
+    for (let i = 1; i < n; i++) labels.push(i === 1 ? 4 : 3);
+
+    // The abstract group has the same Coxeter diagram.
+    const abstractSymmetries = new CoxeterGroup(linearCoxeterMatrix(labels));
     return new ConcreteGroup(symmetryGens, abstractSymmetries);
   }
 
   /**
    * Generates the A(n) symmetry group, which is the symmetry group of an
-   * [[https://polytope.miraheze.org/wiki/Simplex|n-simplex]].
+   * [[https://polytope.miraheze.org/wiki/Simplex|n-simplex]]. Its matrices are
+   * given by [[`coxeter`]].
    *
    * @param n The number of dimensions of the symmetry group.
    * @returns The A(n) symmetry group.
-   * @example
-   * // A(4) is generated by the following matrices:
-   * // | 0  0  0  1|  | 0  1  0  0|  | 1  0  0  0|  | 1  0  0  0|
-   * // | 0  1  0  0|  | 1  0  0  0|  | 0  0  1  0|  | 0  1  0  0|
-   * // | 0  0  1  0|  | 0  0  1  0|  | 0  1  0  0|  | 0  0  0  1|
-   * // | 1  0  0  0|  | 0  0  0  1|  | 0  0  0  1|  | 0  0  1  0|
-   *
-   * console.log(ConcreteGroup.A(4));
    */
   static A(n: number): ConcreteGroup<number[]> {
-    // The matrix generators for the group.
-    const symmetryGens: MathJS.Matrix[] = [];
+    const labels: number[] = [];
+    for (let i = 1; i < n; i++) labels.push(3);
 
-    // The first of the 3-nodes in the Coxeter Diagram.
-    let threeNode = MathJS.identity(n) as MathJS.Matrix;
-    threeNode.swapRows(0, n - 1);
-    symmetryGens.push(threeNode);
+    return ConcreteGroup.coxeter(linearCoxeterMatrix(labels));
+  }
 
-    // The other 3-nodes in the Coxeter Diagram.
-    for (let i = 0; i < n - 1; i++) {
-      threeNode = MathJS.identity(n) as MathJS.Matrix;
-      threeNode.swapRows(i, i + 1);
-      symmetryGens.push(threeNode);
-    }
+  /**
+   * Generates the D(n) symmetry group, which is the symmetry group of an
+   * [[https://polytope.miraheze.org/wiki/Demihypercube|n-demicube]]. The last
+   * node of its diagram branches off the third-to-last one.
+   *
+   * @param n The number of dimensions of the symmetry group.
+   * @returns The D(n) symmetry group.
+   * @throws Will throw an error if `n < 2`.
+   */
+  static D(n: number): ConcreteGroup<number[]> {
+    if (n < 2) throw new Error("D(n) is only defined for n ≥ 2!");
 
-    const system: RewriteRule[] = [];
+    const labels: number[] = [];
+    for (let i = 2; i < n; i++) labels.push(3);
 
-    // Every reflection has order 2.
-    for (let i = 0; i < n; i++) system.push(new RewriteRule([i, i], []));
+    const matrix = linearCoxeterMatrix(labels);
+    matrix.push(new Array(n - 1).fill(2).concat([1]));
+    for (let i = 0; i < n - 1; i++) matrix[i].push(2);
 
-    // Every two mirrors commute.
-    for (let i = 1; i < n; i++) {
-      for (let j = 0; j < i; j++) system.push(new RewriteRule([i, j], [j, i]));
-    }
+    if (n > 2) matrix[n - 1][n - 3] = matrix[n - 3][n - 1] = 3;
+    return ConcreteGroup.coxeter(matrix);
+  }
+
+  /**
+   * Generates the E(n) symmetry group, for n = 6, 7 or 8. The last node of its
+   * diagram branches off the third one.
+   *
+   * @param n The number of dimensions of the symmetry group.
+   * @returns The E(n) symmetry group.
+   * @throws Will throw an error if `n` isn't 6, 7 or 8.
+   */
+  static E(n: number): ConcreteGroup<number[]> {
+    if (n < 6 || n > 8) throw new Error("E(n) is only defined for 6 ≤ n ≤ 8!");
 
-    // The remaining rewrite patterns are of the form
-    // [i, ..., j, i – 1] → [i – 1, i, ..., j].
-    for (let i = 1; i < n; i++) {
-      for (let j = 0; j < i; j++) {
-        const searchValue: number[] = [];
-        const replaceValue = [i - 1];
+    const labels: number[] = [];
+    for (let i = 2; i < n; i++) labels.push(3);
 
-        for (let k = 0; k < j - 1; k++) {
-          searchValue.push(i - k);
-          replaceValue.push(i - k);
-        }
-        searchValue.push(i);
+    const matrix = linearCoxeterMatrix(labels);
+    matrix.push(new Array(n - 1).fill(2).concat([1]));
+    for (let i = 0; i < n - 1; i++) matrix[i].push(2);
+
+    matrix[n - 1][2] = matrix[2][n - 1] = 3;
+    return ConcreteGroup.coxeter(matrix);
+  }
+
+  /**
+   * Generates the F4 symmetry group, which is the symmetry group of the
+   * [[https://polytope.miraheze.org/wiki/Icositetrachoron|icositetrachoron]].
+   *
+   * @returns The F4 symmetry group.
+   */
+  static F4(): ConcreteGroup<number[]> {
+    return ConcreteGroup.coxeter(linearCoxeterMatrix([3, 4, 3]));
+  }
 
-        system.push(new RewriteRule(searchValue, replaceValue));
+  /**
+   * Generates the H(n) symmetry group, for n = 2, 3 or 4. These are the
+   * symmetry groups of the pentagon, the dodecahedron, and the
+   * hecatonicosachoron.
+   *
+   * @param n The number of dimensions of the symmetry group.
+   * @returns The H(n) symmetry group.
+   * @throws Will throw an error if `n` isn't 2, 3 or 4.
+   */
+  static H(n: number): ConcreteGroup<number[]> {
+    if (n < 2 || n > 4) throw new Error("H(n) is only defined for 2 ≤ n ≤ 4!");
+
+    const labels = [5];
+    for (let i = 2; i < n; i++) labels.push(3);
+
+    return ConcreteGroup.coxeter(linearCoxeterMatrix(labels));
+  }
+
+  /**
+   * Generates the I2(p) symmetry group, which is the symmetry group of a
+   * p-gon.
+   *
+   * @param p The number of sides of the polygon.
+   * @returns The I2(p) symmetry group.
+   * @throws Will throw an error if `p` isn't an integer greater than 1.
+   */
+  static I2(p: number): ConcreteGroup<number[]> {
+    if (!Number.isInteger(p) || p < 2)
+      throw new Error("I2(p) is only defined for integers p ≥ 2!");
+
+    return ConcreteGroup.coxeter(linearCoxeterMatrix([p]));
+  }
+
+  /**
+   * Generates the finite Coxeter group described by a Coxeter diagram or a
+   * Coxeter matrix. The matrices are the reflections on the mirrors derived
+   * from the Schläfli matrix, the same used by [[`wythoff`]], and the abstract
+   * group is a [[`CoxeterGroup`]]. Disconnected diagrams give the products of
+   * the groups of their components.
+   *
+   * @param diagram The Coxeter diagram or Coxeter matrix of the group.
+   * @returns The Coxeter group.
+   * @throws Will throw an error if the group isn't finite, or if some label of
+   * the diagram isn't an integer.
+   * @example
+   * // The symmetry group of the 24-cell.
+   * console.log(ConcreteGroup.coxeter(new CD("x3o4o3o").graph));
+   */
+  static coxeter(diagram: CDGraph | number[][]): ConcreteGroup<number[]> {
+    const coxeterMatrix = Array.isArray(diagram)
+      ? diagram
+      : diagram.coxeterMatrix();
+    const n = coxeterMatrix.length;
+    const abstractSymmetries = new CoxeterGroup(coxeterMatrix);
+
+    // The matrices I - 2nnᵀ.
+    const symmetryGens = abstractSymmetries.normals.map((normal) => {
+      const rows: number[][] = [];
+
+      for (let i = 0; i < n; i++) {
+        rows.push([]);
+        for (let j = 0; j < n; j++)
+          rows[i].push((i === j ? 1 : 0) - 2 * normal[i] * normal[j]);
       }
-    }
 
-    const abstractSymmetries = new RewriteGroup(n, system);
+      return MathJS.matrix(rows);
+    });
+
     return new ConcreteGroup(symmetryGens, abstractSymmetries);
   }
 }
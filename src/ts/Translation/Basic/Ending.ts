@@ -110,6 +110,8 @@ export default class Ending {
    * @returns The first ending that matches, or `null` if none does.
    */
   static findEnding(name: string, endings: Ending[]): Ending | null {
+    if (!endings.length) return null;
+
     let first: number;
     let mid: number;
     let last: number;
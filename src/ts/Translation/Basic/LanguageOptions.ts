@@ -12,6 +12,7 @@ export interface LanguageOptions {
 
   arg0?: string;
   arg1?: string;
+  arg2?: string;
 }
 
 export default LanguageOptions;
@@ -56,7 +56,10 @@ export const setLanguage = function (languageCode: string): void {
   }
 
   Message.setLanguage(languageCode);
-  localStorage.setItem("lang", languageCode);
+
+  // Local storage is only available in browsers.
+  if (typeof localStorage !== "undefined")
+    localStorage.setItem("lang", languageCode);
 };
 
 /** Loads the messages used to translate Miratope. */
@@ -69,6 +72,7 @@ Globalize.loadMessages({
 });
 
 // Loads the default language. If there's none, loads English.
-const lang = localStorage.getItem("lang");
+const lang =
+  typeof localStorage !== "undefined" ? localStorage.getItem("lang") : null;
 if (lang !== null) setLanguage(lang);
 else setLanguage("en");
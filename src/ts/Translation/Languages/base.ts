@@ -164,6 +164,12 @@ export default abstract class BaseLanguage {
     return Gender.male;
   }
 
+  /** The grammatical gender of the polytope with a given code name. */
+  codenameGender(code: string): Gender {
+    code;
+    return Gender.male;
+  }
+
   /** Converts a number `n` into a greek prefix (or whatever works similarly in
    * the target language). Based on
    * [[https://www.georgehart.com/virtual-polyhedra/greek-prefixes.html |
@@ -364,7 +370,12 @@ export default abstract class BaseLanguage {
     if (d === 1) {
       if (n === 3) return Message.get("shape/triangle", options);
       else if (n === 4) return Message.get("shape/square", options);
-      else return this.plain(n, 2);
+      else {
+        return Message.uppercase(
+          this.plain(n, 2, { count: options.count }),
+          options
+        );
+      }
     }
 
     options.uppercase ||= this.nounCapitalization;
@@ -383,7 +394,7 @@ export default abstract class BaseLanguage {
 
     // Any polygon with more than 42 sides has at least 6 non-compound
     // stellations.
-    if (n > 42) return this.simpleStar(n, d);
+    if (n > 42) return this.simpleStar(n, d, options);
 
     // Counts the number of stellation non-compounds.
     let count: number;
@@ -394,13 +405,15 @@ export default abstract class BaseLanguage {
 
     // Calculates the index.
     while (i < d)
-      if (Math.gcd(n, i++) === 1 && ++index >= 5) return this.simpleStar(n, d);
+      if (Math.gcd(n, i++) === 1 && ++index >= 5)
+        return this.simpleStar(n, d, options);
 
     count = index;
 
     // Calculates the count.
     while (i < n / 2)
-      if (Math.gcd(n, i++) === 1 && ++count >= 5) return this.simpleStar(n, d);
+      if (Math.gcd(n, i++) === 1 && ++count >= 5)
+        return this.simpleStar(n, d, options);
 
     // Adds the great, grand, etc. modifiers.
     // This system is complicated, don't blame me, I didn't make it.
@@ -430,11 +443,12 @@ export default abstract class BaseLanguage {
       count: options.count,
       gender: options.gender,
 
-      adj0: this.greekPrefix(n, options),
+      arg0: this.greekPrefix(n),
     };
 
     return this.addAdjective(
-      this.greekPrefix(d, options) + Message.get("misc/strophic", options),
+      this.greekPrefix(d) +
+        Message.get("misc/strophic", { gender: options.gender }),
       Message.get("grammar/star", newOptions),
       { uppercase: options.uppercase }
     );
@@ -462,6 +476,51 @@ export default abstract class BaseLanguage {
     );
   }
 
+  /**
+   * The name of a polytope built by Wythoff's construction from a regular
+   * polytope, by ringing some of the nodes of its linear Coxeter diagram.
+   * Node 0 is the only ringed node of the regular polytope itself. Uses
+   * [[https://en.wikipedia.org/wiki/Uniform_polytope#Truncation_operators|
+   * Norman Johnson's operator names]].
+   *
+   * @param base The name of the regular polytope.
+   * @param rings The indices of the ringed nodes, in increasing order.
+   * @param options Result modifiers. The gender should be that of the base.
+   * @returns The name of the polytope.
+   * @example
+   * // "cantitruncated 5-cell"
+   * console.log(Language.wythoffian("5-cell", [0, 1, 2]));
+   */
+  wythoffian(base: string, rings: number[], options: Options = {}): string {
+    if (rings.length === 1 && !rings[0])
+      return Message.uppercase(base, options);
+
+    const start = rings[0];
+    const offsets = rings.slice(1).map((ring) => ring - start);
+    let adj: string;
+
+    // Rectified, birectified, trirectified...
+    if (!offsets.length) {
+      adj =
+        (start > 1 ? Message.get("wythoff/shift" + (start - 1)) : "") +
+        Message.get("wythoff/rectified", { gender: options.gender });
+    }
+
+    // Truncated, cantitruncated, bicantellated...
+    else {
+      adj = start ? Message.get("wythoff/shift" + start) : "";
+
+      for (let i = offsets.length - 1; i > 0; i--)
+        adj += Message.get("wythoff/prefix" + offsets[i]);
+
+      adj += Message.get("wythoff/operation" + offsets[0], {
+        gender: options.gender,
+      });
+    }
+
+    return this.addAdjective(adj, base, { uppercase: options.uppercase });
+  }
+
   hypercube(d: number, options: Options = {}): string {
     const newOptions = { ...options };
     newOptions.arg0 = d.toString();
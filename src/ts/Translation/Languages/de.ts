@@ -1,3 +1,4 @@
+import { Gender } from "../Basic/LanguageOptions";
 import BaseLanguage from "./base";
 
 export default class de extends BaseLanguage {
@@ -14,4 +15,13 @@ export default class de extends BaseLanguage {
   constructor() {
     super();
   }
+
+  /** The grammatical gender of the polytope with a given code name. */
+  codenameGender(code: string): Gender {
+    if (code === "dyad") return Gender.female;
+    if (code === "triangle" || code === "square" || code.endsWith("hedron"))
+      return Gender.neuter;
+
+    return Gender.male;
+  }
 }
@@ -1,9 +1,96 @@
 export default {
+  error: {
+    unexpectedEOF: "Unerwartetes Dateiende!\nZeile: {arg0}, Spalte: {arg1}.",
+    invalidNumber: "Ungültige Zahl!\nZeile: {arg0}, Spalte: {arg1}.",
+    invalidFile: "Ungültige Datei!\nZeile: {arg0}, Spalte: {arg1}.",
+    edgeCount:
+      "Die Datei gibt {arg0} Kanten an, aber ihre Flächen haben {arg1}!",
+    invalidVertex: "Ungültige Ecke!\nZeile: {arg0}.",
+    invalidIndex: "Ungültiger Eckenindex!\nZeile: {arg0}.",
+    cli: {
+      unknownCommand: "Unbekannter Befehl „{arg0}“!",
+      unknownOption: "Unbekannte Option „{arg0}“!",
+      missingArgument: "Fehlendes Argument für „{arg0}“!",
+      unknownFormat: "Unbekanntes Dateiformat „{arg0}“!",
+      fileNotFound: "Datei „{arg0}“ nicht gefunden!",
+      unknownFunction: "Unbekannte Funktion „{arg0}“!",
+      invalidExpression: "Ungültiger Ausdruck!\nSpalte: {arg0}, nahe „{arg1}“.",
+      notPolytope: "„{arg0}“ ist kein Polytop!",
+      notNumber: "„{arg0}“ ist keine Zahl!",
+      argumentCount: "Falsche Anzahl von Argumenten für „{arg0}“!",
+    },
+    cd: {
+      expectedNode:
+        "Knotenbezeichnung erwartet!\nSpalte: {arg0}, bei „{arg1}“.",
+      expectedEdge:
+        "Kantenbezeichnung erwartet!\nSpalte: {arg0}, bei „{arg1}“.",
+      invalidNode:
+        "Ungültige Knotenbezeichnung!\nSpalte: {arg0}, bei „{arg1}“.",
+      invalidEdge:
+        "Ungültige Kantenbezeichnung!\nSpalte: {arg0}, bei „{arg1}“.",
+      invalidVirtualNode:
+        "Ungültiger virtueller Knoten!\nSpalte: {arg0}, bei „{arg1}“.",
+      virtualNodeOutOfRange:
+        "Virtueller Knoten außerhalb des Bereichs!\nSpalte: {arg0}, bei „{arg1}“.",
+      invalidLacing:
+        "Die Verschnürung muss am Ende des Diagramms stehen!\nSpalte: {arg0}, bei „{arg1}“.",
+      layerMismatch:
+        "Jeder Knoten muss einen Buchstaben pro Schicht haben!\nSpalte: {arg0}, bei „{arg1}“.",
+      tooFewLayers:
+        "Verschnürte Diagramme brauchen mindestens zwei Schichten!\nSpalte: {arg0}, bei „{arg1}“.",
+      unexpectedEnd:
+        "Unerwartetes Diagrammende!\nSpalte: {arg0}, bei „{arg1}“.",
+      tooBig: "Diagramm zu groß!\nSpalte: {arg0}, bei „{arg1}“.",
+      lacedPolytope:
+        "Verschnürte Diagramme können noch nicht gebaut werden!\nSpalte: {arg0}, bei „{arg1}“.",
+    },
+    wythoff: {
+      infiniteGroup: "Das Diagramm beschreibt keine endliche Gruppe!",
+      tooManyVertices: "Das Polytop hat zu viele Ecken!",
+      noRingedNodes: "Das Diagramm hat keine beringten Knoten!",
+      tooManyElements: "Das Polytop hat zu viele Elemente!",
+      degenerate: "Das alternierte Polytop ist entartet!",
+      invalidAlternation:
+        "Alternierte Diagramme können nur Stups- und o-Knoten haben!",
+      notAlternable: "Das Diagramm kann nicht alterniert werden!",
+      unequalEdges:
+        "Die Kanten des alternierten Polytops können nicht angeglichen werden!",
+    },
+    symmetry: {
+      noAdjacentFlag: "Eine Flagge des Polytops hat keine benachbarte Flagge!",
+      notFree: "Die Symmetrien des Polytops bestimmen seine Flaggen nicht!",
+      notFaithful:
+        "Das Polytop kann nicht aus seinen Symmetrien wiederhergestellt werden!",
+    },
+  },
   meta: {
     nounCapitalization: "true",
     adjBeforeNoun: "true",
     genderedLanguage: "true",
   },
+  construction: {
+    element: "{arg0} von {arg1}",
+    vertexFigure: "Eckenfigur von {arg0}",
+  },
+  shape: {
+    dyad: "Dyade",
+    triangle: "Dreieck{count, plural, one {} other {e}}",
+    square: "Quadrat{count, plural, one {} other {e}}",
+    tetrahedron: "Tetraeder",
+    cube: "Würfel",
+    octahedron: "Oktaeder",
+    dodecahedron: "Dodekaeder",
+    icosahedron: "Ikosaeder",
+    pentachoron: "5-Zeller",
+    tesseract: "Tesserakt",
+    hexadecachoron: "16-Zeller",
+    icositetrachoron: "24-Zeller",
+    hecatonicosachoron: "120-Zeller",
+    hexacosichoron: "600-Zeller",
+  },
+  grammar: {
+    star: "{arg0}gramm{count, plural, one {} other {e}}",
+  },
   greekPrefixes: {
     unit0: "",
     unit1: "hen",
@@ -30,4 +117,75 @@ export default {
   tris: "tris",
   myria: "myria"*/
   },
+  misc: {
+    gon: "gon{count, plural, one {} other {e}}",
+  },
+  validation: {
+    invalid: "Das Polytop ist ungültig:",
+    invalidVertex: "{arg0} {arg1} hat ungültige Koordinaten.",
+    empty: "{arg0} {arg1} hat keine Unterelemente.",
+    indexOutOfRange:
+      "{arg0} {arg1} verweist auf das nicht existierende Unterelement {arg2}.",
+    repeatedSubelement:
+      "{arg0} {arg1} enthält das Unterelement {arg2} mehrfach.",
+    notDyadic: "{arg0} {arg1} hat nicht genau zwei Ecken.",
+    diamond:
+      "Der Grat {arg2} von {arg0} {arg1} gehört nicht zu genau zwei seiner Facetten.",
+    unused: "{arg0} {arg1} ist in keinem höheren Element enthalten.",
+  },
+  wythoff: {
+    rectified: "rektifiziert{gender, select, male {er} female {e} other {es}}",
+    operation1: "trunkiert{gender, select, male {er} female {e} other {es}}",
+    operation2: "kantelliert{gender, select, male {er} female {e} other {es}}",
+    operation3: "runziniert{gender, select, male {er} female {e} other {es}}",
+    operation4: "steriziert{gender, select, male {er} female {e} other {es}}",
+    operation5: "pentelliert{gender, select, male {er} female {e} other {es}}",
+    operation6: "hexiziert{gender, select, male {er} female {e} other {es}}",
+    operation7: "heptelliert{gender, select, male {er} female {e} other {es}}",
+    prefix2: "kanti",
+    prefix3: "runzi",
+    prefix4: "steri",
+    prefix5: "penti",
+    prefix6: "hexi",
+    prefix7: "hepti",
+    shift1: "bi",
+    shift2: "tri",
+    shift3: "quadri",
+    shift4: "quinti",
+    shift5: "sexti",
+    shift6: "septi",
+  },
+  analysis: {
+    count: "{arg0}: {arg1}",
+    euler: "Euler-Charakteristik: {arg0}",
+    orientable: "Orientierbar",
+    nonOrientable: "Nicht orientierbar",
+    someOrientable: "Orientierbare Komponenten: {arg0} von {arg1}",
+    automorphisms: "Automorphismen: {arg0}",
+    noAutomorphisms: "Automorphismen: konnten nicht gefunden werden",
+    regular: "Regulär, Schläfli-Typ {arg0}",
+    chiral: "Chiral, Schläfli-Typ {arg0}",
+    orbits: "{arg0} Flaggenbahnen",
+    circumradius: "Umkugelradius: {arg0}",
+    noCircumsphere: "Keine Umkugel",
+    valid: "Gültig",
+  },
+  cli: {
+    usage:
+      "Verwendung:\n" +
+      "  miratope convert <Eingabe> <Ausgabe>\n" +
+      "  miratope info <Datei>\n" +
+      "  miratope build <Ausdruck> [-o <Ausgabe>]\n" +
+      "  miratope cd <Diagramm> [-o <Ausgabe>]\n\n" +
+      "Optionen:\n" +
+      "  -o, --output <Datei>  Zu schreibende Datei, sonst OFF auf die Standardausgabe.\n" +
+      "  --strict              Prüft die aus Dateien gelesenen Polytope.\n" +
+      "  --comments            Schreibt Kommentare in OFF-Dateien.\n" +
+      "  --info                Schreibt die Analyse in OFF-Dateien.\n" +
+      "  --wireframe           Schreibt die Kanten und Ecken von Netzen.\n" +
+      "  --ascii               Schreibt ASCII-STL-Dateien.\n" +
+      "  --automorphisms       Sucht bei info die Automorphismen.\n" +
+      "  --lang <Code>         Sprache der Meldungen: en, es oder de.\n\n" +
+      "Formate: off, ggb, obj, stl, ply (nur Ausgabe).",
+  },
 };
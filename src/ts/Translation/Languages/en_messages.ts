@@ -2,6 +2,58 @@ export default {
   error: {
     unexpectedEOF: "Unexpected end of file!\nLine: {arg0}, column: {arg1}.",
     invalidNumber: "Invalid number!\nLine: {arg0}, column: {arg1}.",
+    invalidFile: "Invalid file!\nLine: {arg0}, column: {arg1}.",
+    edgeCount: "The file declares {arg0} edges, but its faces have {arg1}!",
+    invalidVertex: "Invalid vertex!\nLine: {arg0}.",
+    invalidIndex: "Invalid vertex index!\nLine: {arg0}.",
+    cli: {
+      unknownCommand: "Unknown command “{arg0}”!",
+      unknownOption: "Unknown option “{arg0}”!",
+      missingArgument: "Missing argument for “{arg0}”!",
+      unknownFormat: "Unknown file format “{arg0}”!",
+      fileNotFound: "File “{arg0}” not found!",
+      unknownFunction: "Unknown function “{arg0}”!",
+      invalidExpression: "Invalid expression!\nColumn: {arg0}, near “{arg1}”.",
+      notPolytope: "“{arg0}” isn't a polytope!",
+      notNumber: "“{arg0}” isn't a number!",
+      argumentCount: "Wrong number of arguments for “{arg0}”!",
+    },
+    cd: {
+      expectedNode: "Expected a node label!\nColumn: {arg0}, near “{arg1}”.",
+      expectedEdge: "Expected an edge label!\nColumn: {arg0}, near “{arg1}”.",
+      invalidNode: "Invalid node label!\nColumn: {arg0}, near “{arg1}”.",
+      invalidEdge: "Invalid edge label!\nColumn: {arg0}, near “{arg1}”.",
+      invalidVirtualNode:
+        "Invalid virtual node!\nColumn: {arg0}, near “{arg1}”.",
+      virtualNodeOutOfRange:
+        "Virtual node out of range!\nColumn: {arg0}, near “{arg1}”.",
+      invalidLacing:
+        "Lacing must go at the end of the diagram!\nColumn: {arg0}, near “{arg1}”.",
+      layerMismatch:
+        "Every node must have one letter per layer!\nColumn: {arg0}, near “{arg1}”.",
+      tooFewLayers:
+        "Laced diagrams need at least two layers!\nColumn: {arg0}, near “{arg1}”.",
+      unexpectedEnd:
+        "Unexpected end of diagram!\nColumn: {arg0}, near “{arg1}”.",
+      tooBig: "Diagram too big!\nColumn: {arg0}, near “{arg1}”.",
+      lacedPolytope:
+        "Laced diagrams can't be built yet!\nColumn: {arg0}, near “{arg1}”.",
+    },
+    wythoff: {
+      infiniteGroup: "The diagram doesn't describe a finite group!",
+      tooManyVertices: "The polytope has too many vertices!",
+      noRingedNodes: "The diagram has no ringed nodes!",
+      tooManyElements: "The polytope has too many elements!",
+      degenerate: "The alternated polytope is degenerate!",
+      invalidAlternation: "Alternated diagrams can only have snub and o nodes!",
+      notAlternable: "The diagram can't be alternated!",
+      unequalEdges: "The edges of the alternated polytope can't be equalized!",
+    },
+    symmetry: {
+      noAdjacentFlag: "Some flag of the polytope has no adjacent flag!",
+      notFree: "The symmetries of the polytope don't determine its flags!",
+      notFaithful: "The polytope can't be rebuilt from its symmetries!",
+    },
   },
   shape: {
     polytope: "polytope{count, plural, one {} other {s}}",
@@ -11,8 +63,17 @@ export default {
     rectangle: "rectangle{count, plural, one {} other {s}}",
     triangle: "triangle{count, plural, one {} other {s}}",
     square: "square{count, plural, one {} other {s}}",
+    tetrahedron: "tetrahedr{count, plural, one {on} other {a}}",
     cube: "cube{count, plural, one {} other {s}}",
+    octahedron: "octahedr{count, plural, one {on} other {a}}",
+    dodecahedron: "dodecahedr{count, plural, one {on} other {a}}",
+    icosahedron: "icosahedr{count, plural, one {on} other {a}}",
+    pentachoron: "5-cell{count, plural, one {} other {s}}",
     tesseract: "tesseract{count, plural, one {} other {s}}",
+    hexadecachoron: "16-cell{count, plural, one {} other {s}}",
+    icositetrachoron: "24-cell{count, plural, one {} other {s}}",
+    hecatonicosachoron: "120-cell{count, plural, one {} other {s}}",
+    hexacosichoron: "600-cell{count, plural, one {} other {s}}",
     bowtie: "bowtie{count, plural, one {} other {s}}",
     hypercube: "{arg0}-hypercube{count, plural, one {} other {s}}",
     simplex: "{arg0}-simplex{count, plural, one {} other {s}}",
@@ -41,6 +102,10 @@ export default {
     el19: "xendak{count, plural, one {on} other {a}}",
     el20: "ic{count, plural, one {on} other {a}}",
   },
+  construction: {
+    element: "{arg0} of the {arg1}",
+    vertexFigure: "vertex figure of the {arg0}",
+  },
   family: {
     prism: "prism",
     pyramid: "pyramid",
@@ -89,7 +154,7 @@ export default {
     grand: "grand",
   },
   misc: {
-    component: "{count, plural, many {components} other {component}}",
+    component: "component{count, plural, one {} other {s}}",
     compound: "compound",
     cross: "cross",
     plex: "plex",
@@ -97,9 +162,76 @@ export default {
     strophic: "strophic",
     element: "element",
 
-    telon: "telon",
-    gon: "gon",
-    hedron: "hedron",
-    choron: "choron",
+    telon: "tel{count, plural, one {on} other {a}}",
+    gon: "gon{count, plural, one {} other {s}}",
+    hedron: "hedr{count, plural, one {on} other {a}}",
+    choron: "chor{count, plural, one {on} other {a}}",
+  },
+  validation: {
+    invalid: "The polytope is invalid:",
+    invalidVertex: "{arg0} {arg1} has invalid coordinates.",
+    empty: "{arg0} {arg1} has no subelements.",
+    indexOutOfRange:
+      "{arg0} {arg1} references the nonexistent subelement {arg2}.",
+    repeatedSubelement: "{arg0} {arg1} lists subelement {arg2} more than once.",
+    notDyadic: "{arg0} {arg1} doesn't have exactly two vertices.",
+    diamond:
+      "Ridge {arg2} of {arg0} {arg1} doesn't belong to exactly two of its facets.",
+    unused: "{arg0} {arg1} isn't contained in any higher element.",
+  },
+  wythoff: {
+    rectified: "rectified",
+    operation1: "truncated",
+    operation2: "cantellated",
+    operation3: "runcinated",
+    operation4: "stericated",
+    operation5: "pentellated",
+    operation6: "hexicated",
+    operation7: "heptellated",
+    prefix2: "canti",
+    prefix3: "runci",
+    prefix4: "steri",
+    prefix5: "penti",
+    prefix6: "hexi",
+    prefix7: "hepti",
+    shift1: "bi",
+    shift2: "tri",
+    shift3: "quadri",
+    shift4: "quinti",
+    shift5: "sexti",
+    shift6: "septi",
+  },
+  analysis: {
+    count: "{arg0}: {arg1}",
+    euler: "Euler characteristic: {arg0}",
+    orientable: "Orientable",
+    nonOrientable: "Non-orientable",
+    someOrientable: "Orientable components: {arg0} of {arg1}",
+    automorphisms: "Automorphisms: {arg0}",
+    noAutomorphisms: "Automorphisms: could not be found",
+    regular: "Regular, Schläfli type {arg0}",
+    chiral: "Chiral, Schläfli type {arg0}",
+    orbits: "{arg0}-orbit",
+    circumradius: "Circumradius: {arg0}",
+    noCircumsphere: "No circumsphere",
+    valid: "Valid",
+  },
+  cli: {
+    usage:
+      "Usage:\n" +
+      "  miratope convert <input> <output>\n" +
+      "  miratope info <file>\n" +
+      "  miratope build <expression> [-o <output>]\n" +
+      "  miratope cd <diagram> [-o <output>]\n\n" +
+      "Options:\n" +
+      "  -o, --output <file>  File to write, or OFF to the standard output.\n" +
+      "  --strict             Validate the polytopes read from files.\n" +
+      "  --comments           Write comments into OFF files.\n" +
+      "  --info               Write the analysis into OFF files.\n" +
+      "  --wireframe          Write the edges and vertices of meshes.\n" +
+      "  --ascii              Write ASCII STL files.\n" +
+      "  --automorphisms      Search for the automorphisms in info.\n" +
+      "  --lang <code>        Language of the messages: en, es or de.\n\n" +
+      "Formats: off, ggb, obj, stl, ply (output only).",
   },
 };
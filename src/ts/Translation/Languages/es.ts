@@ -33,6 +33,12 @@ export default class es extends BaseLanguage {
     return Gender.female;
   }
 
+  /** The grammatical gender of the polytope with a given code name. */
+  codenameGender(code: string): Gender {
+    if (code === "dyad" || code.endsWith("choron")) return Gender.female;
+    return Gender.male;
+  }
+
   plain(n: number, dimension: number, options: Options = {}): string {
     return (
       lastVowelTilde(this.greekPrefix(n, options)) +
@@ -1,14 +1,90 @@
 export default {
+  error: {
+    unexpectedEOF:
+      "¡Fin de archivo inesperado!\nLínea: {arg0}, columna: {arg1}.",
+    invalidNumber: "¡Número no válido!\nLínea: {arg0}, columna: {arg1}.",
+    invalidFile: "¡Archivo no válido!\nLínea: {arg0}, columna: {arg1}.",
+    edgeCount:
+      "¡El archivo declara {arg0} aristas, pero sus caras tienen {arg1}!",
+    invalidVertex: "¡Vértice no válido!\nLínea: {arg0}.",
+    invalidIndex: "¡Índice de vértice no válido!\nLínea: {arg0}.",
+    cli: {
+      unknownCommand: "¡Comando desconocido “{arg0}”!",
+      unknownOption: "¡Opción desconocida “{arg0}”!",
+      missingArgument: "¡Falta un argumento para “{arg0}”!",
+      unknownFormat: "¡Formato de archivo desconocido “{arg0}”!",
+      fileNotFound: "¡No se encontró el archivo “{arg0}”!",
+      unknownFunction: "¡Función desconocida “{arg0}”!",
+      invalidExpression:
+        "¡Expresión no válida!\nColumna: {arg0}, cerca de “{arg1}”.",
+      notPolytope: "¡“{arg0}” no es un politopo!",
+      notNumber: "¡“{arg0}” no es un número!",
+      argumentCount: "¡Número de argumentos incorrecto para “{arg0}”!",
+    },
+    cd: {
+      expectedNode:
+        "¡Se esperaba la etiqueta de un nodo!\nColumna: {arg0}, cerca de “{arg1}”.",
+      expectedEdge:
+        "¡Se esperaba la etiqueta de una arista!\nColumna: {arg0}, cerca de “{arg1}”.",
+      invalidNode:
+        "¡Etiqueta de nodo no válida!\nColumna: {arg0}, cerca de “{arg1}”.",
+      invalidEdge:
+        "¡Etiqueta de arista no válida!\nColumna: {arg0}, cerca de “{arg1}”.",
+      invalidVirtualNode:
+        "¡Nodo virtual no válido!\nColumna: {arg0}, cerca de “{arg1}”.",
+      virtualNodeOutOfRange:
+        "¡Nodo virtual fuera de rango!\nColumna: {arg0}, cerca de “{arg1}”.",
+      invalidLacing:
+        "¡El enlazado debe ir al final del diagrama!\nColumna: {arg0}, cerca de “{arg1}”.",
+      layerMismatch:
+        "¡Cada nodo debe tener una letra por capa!\nColumna: {arg0}, cerca de “{arg1}”.",
+      tooFewLayers:
+        "¡Los diagramas enlazados necesitan al menos dos capas!\nColumna: {arg0}, cerca de “{arg1}”.",
+      unexpectedEnd:
+        "¡Fin de diagrama inesperado!\nColumna: {arg0}, cerca de “{arg1}”.",
+      tooBig:
+        "¡Diagrama demasiado grande!\nColumna: {arg0}, cerca de “{arg1}”.",
+      lacedPolytope:
+        "¡Aún no se pueden construir diagramas enlazados!\nColumna: {arg0}, cerca de “{arg1}”.",
+    },
+    wythoff: {
+      infiniteGroup: "¡El diagrama no describe un grupo finito!",
+      tooManyVertices: "¡El politopo tiene demasiados vértices!",
+      noRingedNodes: "¡El diagrama no tiene nodos anillados!",
+      tooManyElements: "¡El politopo tiene demasiados elementos!",
+      degenerate: "¡El politopo alternado es degenerado!",
+      invalidAlternation:
+        "¡Los diagramas alternados solo pueden tener nodos romos y o!",
+      notAlternable: "¡El diagrama no se puede alternar!",
+      unequalEdges: "¡Las aristas del politopo alternado no se pueden igualar!",
+    },
+    symmetry: {
+      noAdjacentFlag:
+        "¡Alguna bandera del politopo no tiene bandera adyacente!",
+      notFree: "¡Las simetrías del politopo no determinan sus banderas!",
+      notFaithful:
+        "¡El politopo no se puede reconstruir a partir de sus simetrías!",
+    },
+  },
   shape: {
     polytope: "politopo",
     nullitope: "nulitopo",
     point: "punto",
     dyad: "díada",
     rectangle: "rectángulo",
-    triangle: "triángulo",
-    square: "cuadrado",
+    triangle: "triángulo{count, plural, one {} other {s}}",
+    square: "cuadrado{count, plural, one {} other {s}}",
+    tetrahedron: "tetraedro",
     cube: "cubo",
+    octahedron: "octaedro",
+    dodecahedron: "dodecaedro",
+    icosahedron: "icosaedro",
+    pentachoron: "5-celda",
     tesseract: "teseracto",
+    hexadecachoron: "16-celda",
+    icositetrachoron: "24-celda",
+    hecatonicosachoron: "120-celda",
+    hexacosichoron: "600-celda",
     bowtie: "moño",
   },
   element: {
@@ -34,6 +110,10 @@ export default {
     el19: "xendac{count, plural, one {on} other {a}}",
     el20: "ic{count, plural, one {on} other {a}}",
   },
+  construction: {
+    element: "{arg0} del {arg1}",
+    vertexFigure: "figura de vértice del {arg0}",
+  },
   family: {
     prism: "prisma",
     pyramid: "pirámide",
@@ -90,9 +170,77 @@ export default {
     strophic: "estrófico",
     element: "elemento",
 
-    telon: "telo",
-    gon: "gono",
-    hedron: "edro",
-    choron: "coro",
+    telon: "telo{count, plural, one {} other {s}}",
+    gon: "gono{count, plural, one {} other {s}}",
+    hedron: "edro{count, plural, one {} other {s}}",
+    choron: "coro{count, plural, one {} other {s}}",
+  },
+  validation: {
+    invalid: "El politopo no es válido:",
+    invalidVertex: "{arg0} {arg1} tiene coordenadas no válidas.",
+    empty: "{arg0} {arg1} no tiene subelementos.",
+    indexOutOfRange:
+      "{arg0} {arg1} hace referencia al subelemento inexistente {arg2}.",
+    repeatedSubelement:
+      "{arg0} {arg1} incluye el subelemento {arg2} más de una vez.",
+    notDyadic: "{arg0} {arg1} no tiene exactamente dos vértices.",
+    diamond:
+      "La cresta {arg2} de {arg0} {arg1} no pertenece a exactamente dos de sus facetas.",
+    unused: "{arg0} {arg1} no está contenido en ningún elemento superior.",
+  },
+  wythoff: {
+    rectified: "rectificad{gender, select, male {o} other {a}}",
+    operation1: "truncad{gender, select, male {o} other {a}}",
+    operation2: "cantelad{gender, select, male {o} other {a}}",
+    operation3: "runcinad{gender, select, male {o} other {a}}",
+    operation4: "esterad{gender, select, male {o} other {a}}",
+    operation5: "pentelad{gender, select, male {o} other {a}}",
+    operation6: "hexicad{gender, select, male {o} other {a}}",
+    operation7: "heptelad{gender, select, male {o} other {a}}",
+    prefix2: "canti",
+    prefix3: "runci",
+    prefix4: "esteri",
+    prefix5: "penti",
+    prefix6: "hexi",
+    prefix7: "hepti",
+    shift1: "bi",
+    shift2: "tri",
+    shift3: "cuadri",
+    shift4: "quinti",
+    shift5: "sexti",
+    shift6: "septi",
+  },
+  analysis: {
+    count: "{arg0}: {arg1}",
+    euler: "Característica de Euler: {arg0}",
+    orientable: "Orientable",
+    nonOrientable: "No orientable",
+    someOrientable: "Componentes orientables: {arg0} de {arg1}",
+    automorphisms: "Automorfismos: {arg0}",
+    noAutomorphisms: "Automorfismos: no se pudieron encontrar",
+    regular: "Regular, tipo de Schläfli {arg0}",
+    chiral: "Quiral, tipo de Schläfli {arg0}",
+    orbits: "De {arg0} órbitas",
+    circumradius: "Circunradio: {arg0}",
+    noCircumsphere: "Sin circunesfera",
+    valid: "Válido",
+  },
+  cli: {
+    usage:
+      "Uso:\n" +
+      "  miratope convert <entrada> <salida>\n" +
+      "  miratope info <archivo>\n" +
+      "  miratope build <expresión> [-o <salida>]\n" +
+      "  miratope cd <diagrama> [-o <salida>]\n\n" +
+      "Opciones:\n" +
+      "  -o, --output <archivo>  Archivo a escribir, o OFF a la salida estándar.\n" +
+      "  --strict                Valida los politopos leídos de archivos.\n" +
+      "  --comments              Escribe comentarios en archivos OFF.\n" +
+      "  --info                  Escribe el análisis en archivos OFF.\n" +
+      "  --wireframe             Escribe las aristas y vértices de las mallas.\n" +
+      "  --ascii                 Escribe archivos STL en ASCII.\n" +
+      "  --automorphisms         Busca los automorfismos en info.\n" +
+      "  --lang <código>         Idioma de los mensajes: en, es o de.\n\n" +
+      "Formatos: off, ggb, obj, stl, ply (solo de salida).",
   },
 };
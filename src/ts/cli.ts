@@ -0,0 +1,512 @@
+#!/usr/bin/env node
+/**
+ * The command-line interface of Miratope, which converts, analyzes and builds
+ * polytope files without a browser. Run `miratope` without any arguments for
+ * a list of its commands and options.
+ *
+ * @packageDocumentation
+ * @module CLI
+ */
+
+import "./gcd";
+import * as fs from "fs";
+import * as path from "path";
+import CD from "./Data structures/CD";
+import * as Space from "./geometry/Space";
+import * as Build from "./polytopes/classes/Build";
+import * as Product from "./polytopes/classes/Product";
+import { analyze, report } from "./polytopes/analysis";
+import { PolytopeB, PolytopeC } from "./polytopes/types";
+import * as Message from "./Translation/Basic/Message";
+import { Language, setLanguage } from "./Translation/Language";
+import { parseGGB, serializeGGB } from "./files/GGB";
+import { parseOBJ, serializeOBJ } from "./files/OBJ";
+import { parseOFF, serializeOFF } from "./files/OFF";
+import { serializePLY } from "./files/PLY";
+import { parseSTL, serializeSTL } from "./files/STL";
+
+/** The options of a command, as read by [[`parseArguments`]]. */
+interface CLIOptions {
+  /** The command, followed by its arguments. */
+  args: string[];
+
+  /** The file to write, if any. */
+  output?: string;
+
+  /** Whether to validate the polytopes read from files. */
+  strict: boolean;
+
+  /** Whether to write comments into OFF files. */
+  comments: boolean;
+
+  /** Whether to write the analysis of the polytope into OFF files. */
+  info: boolean;
+
+  /** Whether to write the edges and vertices of meshes, instead of their
+   * faces. */
+  wireframe: boolean;
+
+  /** Whether to write ASCII STL files instead of binary ones. */
+  ascii: boolean;
+
+  /** Whether to search for the automorphisms of the polytopes analyzed. */
+  automorphisms: boolean;
+}
+
+/** The codes of the languages Miratope can be used in. */
+const LANGUAGES = ["en", "es", "de"];
+
+/** The number of characters on each side of an error shown in messages. */
+const SNIPPET_RADIUS = 5;
+
+/** The functions that polytopes can be [[built|`evaluate`]] with. */
+const FUNCTIONS: { [name: string]: unknown } = { ...Build, ...Product };
+
+/** The types of the arguments of the [[`FUNCTIONS`]]. */
+enum ArgumentType {
+  /** The argument is a number. */
+  Number,
+
+  /** The argument is a polytope. */
+  Polytope,
+}
+
+/** The arguments a function in [[`FUNCTIONS`]] takes. */
+interface Signature {
+  /** The types of the arguments, in order. */
+  types: ArgumentType[];
+
+  /** The number of arguments that can't be left out. */
+  required: number;
+
+  /** Whether the last argument can be repeated any number of times. */
+  rest?: boolean;
+}
+
+/** The arguments of each function polytopes can be [[built|`evaluate`]]
+ * with. Functions that aren't listed here can't be called. */
+const SIGNATURES: { [name: string]: Signature } = {
+  verfLength: {
+    types: [ArgumentType.Number, ArgumentType.Number],
+    required: 1,
+  },
+  nullitope: { types: [], required: 0 },
+  point: { types: [], required: 0 },
+  dyad: { types: [ArgumentType.Number], required: 0 },
+  regularPolygon: {
+    types: [ArgumentType.Number, ArgumentType.Number],
+    required: 1,
+  },
+  regularPolygonG: {
+    types: [ArgumentType.Number, ArgumentType.Number],
+    required: 1,
+  },
+  semiregularPolygon: {
+    types: new Array(4).fill(ArgumentType.Number),
+    required: 1,
+  },
+  hypercube: { types: [ArgumentType.Number], required: 1 },
+  simplex: { types: [ArgumentType.Number], required: 1 },
+  cross: { types: [ArgumentType.Number], required: 1 },
+  recticross: { types: [ArgumentType.Number], required: 1 },
+  uniformAntiprism: {
+    types: [ArgumentType.Number, ArgumentType.Number],
+    required: 1,
+  },
+  cupola: { types: [ArgumentType.Number, ArgumentType.Number], required: 1 },
+  cuploid: { types: [ArgumentType.Number, ArgumentType.Number], required: 1 },
+  cupolaicBlend: {
+    types: [ArgumentType.Number, ArgumentType.Number],
+    required: 1,
+  },
+  extrudeToPyramid: {
+    types: [ArgumentType.Polytope, ArgumentType.Number],
+    required: 2,
+  },
+  prism: { types: [ArgumentType.Polytope], required: 1, rest: true },
+  tegum: { types: [ArgumentType.Polytope], required: 1, rest: true },
+  pyramid: { types: [ArgumentType.Polytope], required: 1, rest: true },
+  extrudeToPrism: {
+    types: [ArgumentType.Polytope, ArgumentType.Number],
+    required: 1,
+  },
+};
+
+/**
+ * Helper function for [[`main`]]. Gets the language to show the messages in,
+ * either from the `--lang` option or from the `LANG` environment variable.
+ *
+ * @param argv The command-line arguments.
+ * @returns The code of the language, or English if it's not supported.
+ */
+const language = function (argv: string[]): string {
+  const i = argv.indexOf("--lang");
+  const code =
+    i === -1 ? (process.env.LANG ?? "").substring(0, 2) : argv[i + 1];
+
+  return LANGUAGES.includes(code) ? code : "en";
+};
+
+/**
+ * Helper function for [[`main`]]. Splits the command-line arguments into the
+ * command, its arguments, and its options.
+ *
+ * @param argv The command-line arguments.
+ * @returns The command and its options.
+ * @throws Will throw an error if some option is unknown or lacks its value.
+ */
+const parseArguments = function (argv: string[]): CLIOptions {
+  const res: CLIOptions = {
+    args: [],
+    strict: false,
+    comments: false,
+    info: false,
+    wireframe: false,
+    ascii: false,
+    automorphisms: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    switch (arg) {
+      case "-o":
+      case "--output":
+      case "--lang":
+        if (i + 1 >= argv.length)
+          Message.error("error/cli/missingArgument", { arg0: arg });
+        if (arg !== "--lang") res.output = argv[i + 1];
+        i++;
+        break;
+      case "--strict":
+        res.strict = true;
+        break;
+      case "--comments":
+        res.comments = true;
+        break;
+      case "--info":
+        res.info = true;
+        break;
+      case "--wireframe":
+        res.wireframe = true;
+        break;
+      case "--ascii":
+        res.ascii = true;
+        break;
+      case "--automorphisms":
+        res.automorphisms = true;
+        break;
+      default:
+        if (arg.length > 1 && arg[0] === "-" && isNaN(Number(arg)))
+          Message.error("error/cli/unknownOption", { arg0: arg });
+        res.args.push(arg);
+    }
+  }
+
+  return res;
+};
+
+/**
+ * Helper function for [[`main`]]. Gets an argument of the command.
+ *
+ * @param options The command and its options.
+ * @param i The index of the argument, starting from 1.
+ * @returns The argument.
+ * @throws Will throw an error if there's no such argument.
+ */
+const argument = function (options: CLIOptions, i: number): string {
+  if (i >= options.args.length)
+    Message.error("error/cli/missingArgument", { arg0: options.args[0] });
+
+  return options.args[i];
+};
+
+/**
+ * Helper function for [[`read`]] and [[`write`]]. Gets the extension of a
+ * file, in lowercase.
+ *
+ * @param file The path to the file.
+ * @returns The extension of the file, without the dot.
+ */
+const extension = function (file: string): string {
+  return path.extname(file).substring(1).toLowerCase();
+};
+
+/**
+ * Evaluates an expression made out of numbers and calls to the functions of
+ * [[`Build`]] and [[`Product`]], such as
+ * `prism(regularPolygon(5), regularPolygon(7))`.
+ *
+ * @param expression The expression to evaluate.
+ * @returns The polytope the expression evaluates to.
+ * @throws Will throw an error if the expression can't be parsed, if it calls
+ * an unknown function or passes it the wrong arguments, or if it doesn't
+ * evaluate to a polytope.
+ */
+const evaluate = function (expression: string): PolytopeB {
+  let pos = 0;
+
+  const skipSpaces = function (): void {
+    while (/\s/.test(expression.charAt(pos))) pos++;
+  };
+
+  const fail = function (): never {
+    return Message.error("error/cli/invalidExpression", {
+      arg0: (pos + 1).toString(),
+      arg1: expression.substring(
+        pos - SNIPPET_RADIUS,
+        pos + SNIPPET_RADIUS + 1
+      ),
+    });
+  };
+
+  // Reads either a number or a function call.
+  const readValue = function (): unknown {
+    skipSpaces();
+    const rest = expression.substring(pos);
+
+    const number = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(rest);
+    if (number) {
+      pos += number[0].length;
+      return parseFloat(number[0]);
+    }
+
+    const name = /^[A-Za-z_]\w*/.exec(rest);
+    if (!name) return fail();
+    pos += name[0].length;
+
+    // Only looks up the functions themselves, not the ones every object has.
+    const signature = Object.prototype.hasOwnProperty.call(SIGNATURES, name[0])
+      ? SIGNATURES[name[0]]
+      : undefined;
+    const f = FUNCTIONS[name[0]];
+    if (!signature || typeof f !== "function")
+      return Message.error("error/cli/unknownFunction", { arg0: name[0] });
+
+    // Reads the arguments of the function.
+    skipSpaces();
+    if (expression.charAt(pos++) !== "(") {
+      pos--;
+      fail();
+    }
+
+    const args: unknown[] = [];
+    skipSpaces();
+    if (expression.charAt(pos) === ")") pos++;
+    else {
+      for (;;) {
+        // Checks each argument against the type the function expects.
+        skipSpaces();
+        const start = pos;
+        const arg = readValue();
+        const type =
+          signature.types[Math.min(args.length, signature.types.length - 1)];
+
+        if (args.length >= signature.types.length && !signature.rest)
+          Message.error("error/cli/argumentCount", { arg0: name[0] });
+        if (type === ArgumentType.Number && typeof arg !== "number")
+          Message.error("error/cli/notNumber", {
+            arg0: expression.substring(start, pos),
+          });
+        if (type === ArgumentType.Polytope && !(arg instanceof PolytopeB))
+          Message.error("error/cli/notPolytope", {
+            arg0: expression.substring(start, pos),
+          });
+
+        args.push(arg);
+        skipSpaces();
+
+        const char = expression.charAt(pos++);
+        if (char === ")") break;
+        if (char !== ",") {
+          pos--;
+          fail();
+        }
+      }
+    }
+
+    if (args.length < signature.required)
+      Message.error("error/cli/argumentCount", { arg0: name[0] });
+
+    return (f as (...values: unknown[]) => unknown)(...args);
+  };
+
+  const res = readValue();
+  skipSpaces();
+  if (pos < expression.length) fail();
+
+  if (!(res instanceof PolytopeB))
+    Message.error("error/cli/notPolytope", { arg0: expression });
+
+  return res as PolytopeB;
+};
+
+/**
+ * Reads a polytope from a file, according to its extension.
+ *
+ * @param file The path to the file.
+ * @param options The command options.
+ * @returns A promise for the polytope.
+ * @throws Will throw an error if the file doesn't exist, if its format is
+ * unknown, or if it can't be parsed.
+ */
+const read = function (file: string, options: CLIOptions): Promise<PolytopeC> {
+  if (!fs.existsSync(file))
+    Message.error("error/cli/fileNotFound", { arg0: file });
+
+  // Names the polytope after the file, as when it's opened in the browser.
+  let name = path.basename(file, path.extname(file));
+  if (!Language.nounCapitalization) name = Message.firstToLower(name);
+
+  const contents = fs.readFileSync(file);
+  switch (extension(file)) {
+    case "off":
+      return Promise.resolve(
+        parseOFF(contents.toString(), name, options.strict)
+      );
+    case "ggb":
+      return parseGGB(new Uint8Array(contents));
+    case "obj":
+      return Promise.resolve(
+        parseOBJ(contents.toString(), name, options.strict)
+      );
+    case "stl":
+      return Promise.resolve(
+        parseSTL(
+          contents.buffer.slice(
+            contents.byteOffset,
+            contents.byteOffset + contents.byteLength
+          ),
+          name,
+          options.strict
+        )
+      );
+    default:
+      return Message.error("error/cli/unknownFormat", { arg0: file });
+  }
+};
+
+/**
+ * Writes a polytope into a file, according to its extension, or as an OFF
+ * file into the standard output if no file is given.
+ *
+ * @param polytope The polytope to write.
+ * @param file The path to the file.
+ * @param options The command options.
+ * @returns A promise that resolves once the file is written.
+ * @throws Will throw an error if the format of the file is unknown.
+ */
+const write = function (
+  polytope: PolytopeB,
+  file: string | undefined,
+  options: CLIOptions
+): Promise<void> {
+  const meshOptions = { wireframe: options.wireframe };
+
+  if (file === undefined) {
+    process.stdout.write(serializeOFF(polytope, options));
+    return Promise.resolve();
+  }
+
+  switch (extension(file)) {
+    case "off":
+      fs.writeFileSync(file, serializeOFF(polytope, options));
+      break;
+    case "ggb":
+      return serializeGGB(polytope, meshOptions).then((contents) =>
+        fs.writeFileSync(file, contents)
+      );
+    case "obj":
+      fs.writeFileSync(file, serializeOBJ(polytope, meshOptions));
+      break;
+    case "stl": {
+      const contents = serializeSTL(polytope, options);
+      fs.writeFileSync(
+        file,
+        typeof contents === "string" ? contents : new Uint8Array(contents)
+      );
+      break;
+    }
+    case "ply":
+      fs.writeFileSync(file, serializePLY(polytope, meshOptions));
+      break;
+    default:
+      Message.error("error/cli/unknownFormat", { arg0: file });
+  }
+
+  return Promise.resolve();
+};
+
+/**
+ * Writes the [[report|analysis]] of a polytope into the standard output,
+ * along with its circumradius and whether it's valid.
+ *
+ * @param P The polytope to analyze.
+ * @param options The command options.
+ * @throws Will throw an error listing the problems of the polytope if it's
+ * malformed, since it can't be analyzed then.
+ */
+const info = function (P: PolytopeC, options: CLIOptions): void {
+  P.validate(true);
+  const lines = report(P, analyze(P, options));
+
+  const vertices = P.elementList[0];
+  const center = P.circumcenter();
+  if (vertices && center) {
+    lines.push(
+      Message.get("analysis/circumradius", {
+        arg0: Space.distance(center, vertices[0]).toString(),
+      })
+    );
+  } else lines.push(Message.get("analysis/noCircumsphere"));
+  lines.push(Message.get("analysis/valid"));
+
+  process.stdout.write(lines.join("\n") + "\n");
+};
+
+/**
+ * Runs a command.
+ *
+ * @param argv The command-line arguments.
+ * @returns A promise that resolves once the command is done, or that rejects
+ * with a translated error message.
+ */
+const main = function (argv: string[]): Promise<void> {
+  return Promise.resolve().then(() => {
+    setLanguage(language(argv));
+    const options = parseArguments(argv);
+
+    switch (options.args[0]) {
+      case "convert":
+        return read(argument(options, 1), options).then((P) => {
+          // Malformed polytopes can't be meshed or written.
+          P.validate(true);
+          return write(P, argument(options, 2), options);
+        });
+      case "info":
+        return read(argument(options, 1), options).then((P) =>
+          info(P, options)
+        );
+      case "build":
+        return write(evaluate(argument(options, 1)), options.output, options);
+      case "cd":
+        return write(
+          new CD(argument(options, 1)).toPolytope(),
+          options.output,
+          options
+        );
+      case undefined:
+      case "help":
+        process.stdout.write(Message.get("cli/usage") + "\n");
+        if (!options.args.length) process.exitCode = 1;
+        return;
+      default:
+        Message.error("error/cli/unknownCommand", { arg0: options.args[0] });
+    }
+  });
+};
+
+main(process.argv.slice(2)).catch(function (error: Error) {
+  process.stderr.write(error.message + "\n");
+  process.exitCode = 1;
+});
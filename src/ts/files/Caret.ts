@@ -22,6 +22,9 @@ export default class Caret {
   /** Stores whether the end of the file has been reached or not. */
   EOF: boolean;
 
+  /** The comments the caret has skipped over, without the leading `#`. */
+  comments: string[] = [];
+
   /**
    * Constructor for the Caret class.
    *
@@ -83,14 +86,20 @@ export default class Caret {
         case " ": // Whitespace
           this.increment();
           break;
-        case "#": // The start of a comment
+        case "#": {
+          // The start of a comment
           this.increment();
+          const start = this.pos;
 
           // A comment lasts from the # until the end of the line.
           // Increments until you hit the EOF or a new line character.
           while (!this.EOF && this.getChar() !== "\n") this.increment();
+          this.comments.push(
+            this.contents.substring(start, this.pos).replace(/\r$/, "")
+          );
           this.increment();
           break;
+        }
         default:
           return;
       }
@@ -268,8 +277,33 @@ export default class Caret {
     return res;
   }
 
+  /**
+   * Reads numbers until the end of the current line. Caret automatically
+   * [[skips to next content|`skipToContent`]] afterwards.
+   *
+   * @returns The read numbers.
+   * @throws Will throw an error if the caret is currently at the EOF.
+   * @throws Will throw an error if some read number is invalid.
+   */
+  readLineNumbers(): number[] {
+    if (this.EOF) this.throwError("unexpectedEOF");
+
+    const line = this.line;
+    const res: number[] = [];
+
+    while (this.pos < this.contents.length && this.line === line) {
+      const x = this.readNumber();
+      if (isNaN(x)) this.throwError("invalidNumber");
+      res.push(x);
+    }
+
+    return res;
+  }
+
   private isNumericChar(): boolean {
     const char = this.getChar();
+    // The end of a file without a final line break.
+    if (char === undefined) return false;
     if (["+", "-", ".", "e", "E"].includes(char)) return true;
 
     const code = char.charCodeAt(0);
@@ -279,18 +313,18 @@ export default class Caret {
   /**
    * Throws an error corresponding to the error code.
    * Automatically inserts the line and column numbers
-   * into the error message.
+   * into the error message, both starting from 1.
    *
-   * @param code The error code.
+   * @param code The error code, without the `error/` prefix.
    * @param dev Whether the error is the user's or the developer's fault.
    * @throws The corresponding error.
    */
   throwError(code: string, dev = false): never {
     return Message.error(
-      code,
+      "error/" + code,
       {
-        arg0: this.line.toString(),
-        arg1: this.column.toString(),
+        arg0: (this.line + 1).toString(),
+        arg1: (this.column + 1).toString(),
       },
       dev
     );
@@ -1,7 +1,16 @@
+/**
+ * Contains the methods to read and write GeoGebra files.
+ *
+ * @packageDocumentation
+ * @module GGB
+ * @category File
+ */
+
 import * as JSZip from "jszip";
 import Point from "../geometry/Point";
-import { PolytopeB } from "../polytopes/types";
+import { ElementList, PolytopeB, PolytopeC } from "../polytopes/types";
 import * as Message from "../Translation/Basic/Message";
+import Caret from "./Caret";
 import * as Library from "./Library";
 
 export interface GGBOptions {
@@ -9,30 +18,184 @@ export interface GGBOptions {
 }
 
 /**
- * Saves a polytope as a GeoGebra file.
+ * Helper function for [[`parseGGB`]]. Reads a polyhedron from the
+ * geogebra.xml file inside of a GGB file.
+ *
+ * @param contents The contents of geogebra.xml.
+ * @returns The polyhedron.
+ */
+const parseXML = function (contents: string): PolytopeC {
+  const caret = new Caret(contents);
+  const elementList: ElementList = [[], [], [], []];
+
+  // Dictionary to convert from GeoGebra point names to indices.
+  const vertDict: { [key: string]: number } = {};
+
+  // Dictionary to convert from edges to indices.
+  const edgeDict: { [key: number]: number } = {};
+
+  // The tags we're reading from the file.
+  const tagList = [
+    '<element type="point"',
+    '<element type="point3d"',
+    '<command name="Polygon">',
+  ];
+
+  let nextStringIndex: number;
+
+  while ((nextStringIndex = caret.skipToStringList(tagList)) != -1) {
+    switch (nextStringIndex) {
+      case 0: {
+        // Reading a 2D point.
+
+        // Reads the point name.
+        caret.skipToString('label="');
+        vertDict[caret.readUntil('"')] = elementList[0].length;
+
+        // Reads the coordinates.
+        caret.skipToString('<coords x="');
+
+        let x = caret.readNumber();
+        caret.advance(5);
+
+        let y = caret.readNumber();
+        caret.advance(5);
+
+        let z = caret.readNumber();
+        caret.advance(5);
+
+        x /= z;
+        y /= z;
+        z /= z;
+
+        elementList[0].push(new Point([x, y, 0]));
+        break;
+      }
+      case 1: {
+        // Reading a 3D point.
+
+        // Reads the point name.
+        caret.skipToString('label="');
+        vertDict[caret.readUntil('"')] = elementList[0].length;
+
+        // Reads the coordinates.
+        caret.skipToString('<coords x="');
+
+        let x = caret.readNumber();
+        caret.advance(5);
+
+        let y = caret.readNumber();
+        caret.advance(5);
+
+        let z = caret.readNumber();
+        caret.advance(5);
+
+        const w = caret.readNumber();
+        caret.advance(5);
+
+        x /= w;
+        y /= w;
+        z /= w;
+
+        elementList[0].push(new Point([x, y, z]));
+        break;
+      }
+      // Reading a polygon.
+      case 2: {
+        // Reads vertex names.
+        caret.skipToString("<input a0=");
+        const verts: number[] = [];
+        while (caret.getChar() !== "/") {
+          caret.skipToChar('"');
+          caret.increment();
+          const str = caret.readUntil('"');
+          verts.push(vertDict[str]);
+          caret.increment();
+
+          // Skips the spaces before the next attribute or the end of the tag.
+          while (caret.getChar() === " ") caret.increment();
+        }
+        // Simulates a cyclic order.
+        verts.push(verts[0]);
+
+        // Adds edges.
+        const edges: number[] = [];
+        for (let i = 0; i < verts.length - 1; i++) {
+          // Orders the edge, so that their key (identifier) is unique.
+          const edge: [number, number] = [verts[i], verts[i + 1]];
+          if (edge[0] > edge[1]) {
+            const t = edge[0];
+            edge[0] = edge[1];
+            edge[1] = t;
+          }
+
+          // Adds the edge to elementList if needed.
+          const key: string = edge[0] + "_" + edge[1];
+          if (edgeDict[key] === undefined) {
+            edgeDict[key] = elementList[1].length;
+            elementList[1].push(edge);
+          }
+
+          edges.push(edgeDict[key]);
+        }
+
+        // Adds faces.
+        elementList[2].push(edges);
+        break;
+      }
+    }
+  }
+
+  // Gets components.
+  elementList[3] = Library.getComponents(elementList[2]);
+
+  return new PolytopeC(elementList);
+};
+
+/**
+ * Reads a polyhedron from the contents of a GGB file. A GGB file is really
+ * just a ZIP file in disguise. This ZIP file contains an XML called
+ * geogebra.xml, whose points and polygons are read.
+ *
+ * @param contents The contents of the file.
+ * @returns A promise for the polyhedron.
+ */
+export const parseGGB = function (contents: Uint8Array): Promise<PolytopeC> {
+  return JSZip.loadAsync(contents).then(function (zip: JSZip) {
+    const xml = zip.file("geogebra.xml");
+    if (!xml) throw new Error("Invalid GeoGebra file!");
+    return xml.async("string").then(parseXML);
+  });
+};
+
+/**
+ * Writes a polytope as the contents of a GeoGebra file.
  * Has most of the XML hardcoded, just editing what's needed.
  *
- * @param polytope The polytope to be saved.
+ * @param polytope The polytope to be written.
  * @param options Whether faces are to be omitted.
+ * @returns A promise for the contents of the file.
+ * @throws Will throw an error if the polytope is the nullitope.
  * @todo Compress the file XML a bit?
  * @todo Add a "Made in Miratope v. ###" tag to the Geogebra file.
  * @todo Deal with the nullitope case.
  * @todo Implement other types of projections.
  */
-export const saveAsGGB = function (
+export const serializeGGB = function (
   polytope: PolytopeB,
   options: GGBOptions
-): void {
+): Promise<Uint8Array> {
   const P = polytope.toPolytopeC();
 
   // We can deal with the nullitope later.
-  if (!P.elementList[0]) return;
+  if (!P.elementList[0])
+    throw new Error("The nullitope can't be saved as a GeoGebra file!");
 
   // ggbs often come bundled with some other files,
   // but it seems geogebra.xml is the only one that's really needed.
   const ggb = new JSZip();
-  const scale = 200 / P.circumradius();
-  const center = (P.gravicenter() as Point).coordinates;
+  const scale = 200 / polytope.circumradius();
+  const center = polytope.gravicenter().coordinates;
   const d = P.spaceDimensions;
   const fourD = d >= 4; // Will the GGB file be a higher-dimensional projection?
   const x = 1337; // Positioning (arbitrary but should be decently sized).
@@ -55,9 +218,10 @@ export const saveAsGGB = function (
     '" xAngle="0" zAngle="0"/><evSettings axes="false" grid="false" gridIsBold="false" pointCapturing="3" rightAngleStyle="1" gridType="3"/><axis id="0" show="false" label="" unitLabel="" tickStyle="1" showNumbers="true"/><axis id="1" show="false" label="" unitLabel="" tickStyle="1" showNumbers="true"/><axis id="2" show="false" label="" unitLabel="" tickStyle="1" showNumbers="true"/><plate show="false"/><bgColor r="255" g="255" b="255"/><clipping use="false" show="false" size="1"/><projection type="0"/></euclidianView3D><construction title="" author="" date="">';
   let edge = 0; // Index for edge names.
   // The following are provisional until Miratope does automatic coloring.
-  const ptColor: [number, number, number] = [96, 96, 96]; // RGB color of points.
-  const edgeColor: [number, number, number] = [0, 0, 0]; // RGB color of edges.
-  const faceColor: [number, number, number] = [192, 192, 192]; // RGB color of faces.
+  // RGB colors of points, edges and faces.
+  const ptColor: [number, number, number] = [96, 96, 96];
+  const edgeColor: [number, number, number] = [0, 0, 0];
+  const faceColor: [number, number, number] = [192, 192, 192];
   const opacity = 0.5; // Opacity of faces.
 
   // If the polytope is 4D or up:
@@ -70,7 +234,16 @@ export const saveAsGGB = function (
       '" y="-0.2" z="1.0"/></element>';
     // Projection point.
     // y = d * (d - 1) / 2;
-    // file += '<expression label="txt2" exp="&quot;\\text{Projection point:}&quot;"/><element type="text" label="txt2"><show object="true" label="true" ev="40"/><objColor r="0" g="0" b="0" alpha="0.0"/><layer val="0"/><labelMode val="0"/><isLaTeX val="true"/><font serif="true" sizeM="1.0" size="0" style="0"/><startPoint x="' + (x - 0.3) + '" y="' + (-y - 1.2) + '" z="1.0"/></element>';
+    // file +=
+    //   '<expression label="txt2" exp="&quot;\\text{Projection point:}' +
+    //   '&quot;"/><element type="text" label="txt2"><show object="true" ' +
+    //   'label="true" ev="40"/><objColor r="0" g="0" b="0" alpha="0.0"/>' +
+    //   '<layer val="0"/><labelMode val="0"/><isLaTeX val="true"/><font ' +
+    //   'serif="true" sizeM="1.0" size="0" style="0"/><startPoint x="' +
+    //   (x - 0.3) +
+    //   '" y="' +
+    //   (-y - 1.2) +
+    //   '" z="1.0"/></element>';
 
     // Adds rotation sliders.
     let y = -1.3;
@@ -91,20 +264,47 @@ export const saveAsGGB = function (
     }
 
     /*
-		//Adds projection point sliders.
-		y--;
-		for(i = 0; i < d - 1; i++) {
-			file += '<element type="numeric" label="x_{' + i + '}"><value val="0"/><show object="true" label="true"/><objColor r="0" g="0" b="0" alpha="0.1"/><layer val="0"/><labelMode val="1"/><slider min="-10" max="10" width="4.0" x="0" y="' + y + '" fixed="false" horizontal="true" showAlgebra="true"/><lineStyle thickness="10" type="0" typeHidden="1"/><animation step="0.01" speed="1" type="0" playing="false"/><ggbscript onUpdate=""/></element>';
-			y--;
-		}
-		file += '<element type="numeric" label="x_{' + i + '}"><value val="' + 5 +	'"/><show object="true" label="true"/><objColor r="0" g="0" b="0" alpha="0.1"/><layer val="0"/><labelMode val="1"/><slider min="-10" max="10" width="4.0" x="0" y="' + y + '" fixed="false" horizontal="true" showAlgebra="true"/><lineStyle thickness="10" type="0" typeHidden="1"/><animation step="0.01" speed="1" type="0" playing="false"/><ggbscript onUpdate=""/></element>';
-
-		//Adds projection point.
-		file += '<expression label="P" exp="{';
-		for(i = 0; i < d - 1; i++)
-			file += 'x_{' + i + '},';
-		file += 'x_{' + i + '}}" /><element type="list" label="P"><objColor r="0" g="100" b="0" alpha="0.1"/><lineStyle thickness="5" type="0" typeHidden="1"/><pointSize val="5"/><angleStyle val="0"/><symbolic val="true" /></element>';
-		*/
+    // Adds projection point sliders.
+    y--;
+    for (i = 0; i < d - 1; i++) {
+      file +=
+        '<element type="numeric" label="x_{' +
+        i +
+        '}"><value val="0"/><show object="true" label="true"/><objColor ' +
+        'r="0" g="0" b="0" alpha="0.1"/><layer val="0"/><labelMode ' +
+        'val="1"/><slider min="-10" max="10" width="4.0" x="0" y="' +
+        y +
+        '" fixed="false" horizontal="true" showAlgebra="true"/><lineStyle ' +
+        'thickness="10" type="0" typeHidden="1"/><animation step="0.01" ' +
+        'speed="1" type="0" playing="false"/><ggbscript onUpdate=""/>' +
+        "</element>";
+      y--;
+    }
+    file +=
+      '<element type="numeric" label="x_{' +
+      i +
+      '}"><value val="' +
+      5 +
+      '"/><show object="true" label="true"/><objColor r="0" g="0" b="0" ' +
+      'alpha="0.1"/><layer val="0"/><labelMode val="1"/><slider min="-10" ' +
+      'max="10" width="4.0" x="0" y="' +
+      y +
+      '" fixed="false" horizontal="true" showAlgebra="true"/><lineStyle ' +
+      'thickness="10" type="0" typeHidden="1"/><animation step="0.01" ' +
+      'speed="1" type="0" playing="false"/><ggbscript onUpdate=""/>' +
+      "</element>";
+
+    // Adds projection point.
+    file += '<expression label="P" exp="{';
+    for (i = 0; i < d - 1; i++) file += "x_{" + i + "},";
+    file +=
+      "x_{" +
+      i +
+      '}}" /><element type="list" label="P"><objColor r="0" g="100" ' +
+      'b="0" alpha="0.1"/><lineStyle thickness="5" type="0" ' +
+      'typeHidden="1"/><pointSize val="5"/><angleStyle val="0"/>' +
+      '<symbolic val="true" /></element>';
+    */
 
     // ADD I
     file += '<expression label="I" exp="{{1,0,0},{0,1,0},{0,0,1}';
@@ -281,14 +481,30 @@ export const saveAsGGB = function (
 
   // Closing tags.
   file += "</construction></geogebra>";
-  Library.setFileName(Message.firstToUpper(P.getName()) + ".ggb");
 
-  // Save file.
   ggb.file("geogebra.xml", file);
-  ggb
-    .generateAsync({
-      type: "blob",
-      mimeType: 'application/vnd.geogebra.file; version="5"',
-    })
-    .then(Library.saveBlob);
+  return ggb.generateAsync({ type: "uint8array" });
+};
+
+/**
+ * Saves a polytope as a GeoGebra file, as written by [[`serializeGGB`]].
+ * Nothing is saved for the nullitope.
+ *
+ * @param polytope The polytope to be saved.
+ * @param options Whether faces are to be omitted.
+ */
+export const saveAsGGB = function (
+  polytope: PolytopeB,
+  options: GGBOptions
+): void {
+  if (!polytope.toPolytopeC().elementList[0]) return;
+
+  Library.setFileName(Message.firstToUpper(polytope.getName()) + ".ggb");
+  serializeGGB(polytope, options).then((contents) =>
+    Library.saveBlob(
+      new Blob([contents], {
+        type: 'application/vnd.geogebra.file; version="5"',
+      })
+    )
+  );
 };
@@ -7,16 +7,12 @@
  * @category File
  */
 
-import * as JSZip from "jszip";
-
-import { Name as CNName } from "../Data structures/Construction/Node";
-import { Graph, GraphNode } from "../Data structures/graphs";
-import Point from "../geometry/Point";
-import * as Build from "../polytopes/classes/Build";
-import { ElementList, PolytopeC } from "../polytopes/types";
 import * as Message from "../Translation/Basic/Message";
 import { Language } from "../Translation/Language";
-import Caret from "./Caret";
+import { parseGGB } from "./GGB";
+import { parseOBJ } from "./OBJ";
+import { parseOFF } from "./OFF";
+import { parseSTL } from "./STL";
 
 /** A filename, used as a temporary variable in some functions. */
 export let fileName: string;
@@ -25,31 +21,120 @@ export const setFileName = function (newFileName: string): void {
   fileName = newFileName;
 };
 
+/** Whether imported files are checked with [[`PolytopeC.validate`]], throwing
+ * an error if they're malformed. */
+export let strictMode = false;
+
+export const setStrictMode = function (newStrictMode: boolean): void {
+  strictMode = newStrictMode;
+};
+
 /**
- * Helper function for [[`openFile`]] and more specifically for
- * [[`onloadOFF`]]. Checks whether two arrays have a common element using a
- * dictionary.
+ * Helper function for the file parsers. Splits the facets of a polytope into
+ * components, by linking any two facets with a common subelement. These are
+ * found through a union-find structure, which avoids comparing every pair of
+ * facets.
  *
- * @param a The first array to check.
- * @param b The second array to check.
- * @returns Whether the arrays have a common element or not.
+ * @param facets The facets of the polytope.
+ * @returns The facets of each component, in increasing order. The components
+ * are ordered by their first facet.
  */
-const checkCommonElements = function (a: number[], b: number[]): boolean {
-  const vals: boolean[] = [];
-  vals[a[0]] = true;
-
-  let i: number;
-  for (i = 1; i < a.length; i++) {
-    if (vals[a[i]]) return true;
-    vals[a[i]] = true;
+export const getComponents = function (facets: number[][]): number[][] {
+  // The facet each facet is linked to. Following these links eventually
+  // leads to the first facet of its component.
+  const parent = facets.map((_f, i) => i);
+  const find = function (i: number): number {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+
+    return i;
+  };
+
+  // The first facet containing each subelement.
+  const firstFacet: number[] = [];
+  for (let i = 0; i < facets.length; i++) {
+    for (let j = 0; j < facets[i].length; j++) {
+      const el = facets[i][j];
+
+      if (firstFacet[el] === undefined) firstFacet[el] = i;
+      else {
+        const a = find(i),
+          b = find(firstFacet[el]);
+        parent[Math.max(a, b)] = Math.min(a, b);
+      }
+    }
   }
 
-  for (i = 0; i < b.length - 1; i++) {
-    if (vals[b[i]]) return true;
-    vals[b[i]] = true;
+  // The index of the component of each first facet.
+  const res: number[][] = [];
+  const components: number[] = [];
+  for (let i = 0; i < facets.length; i++) {
+    const root = find(i);
+
+    if (components[root] === undefined) {
+      components[root] = res.length;
+      res.push([]);
+    }
+
+    res[components[root]].push(i);
   }
 
-  return !!vals[b[i]];
+  return res;
+};
+
+/**
+ * Helper function for the file parsers. Gets the index of the edge between two
+ * vertices, adding it to the element list if needed.
+ *
+ * @param x The index of the first vertex.
+ * @param y The index of the second vertex.
+ * @param edges The edges of the polytope.
+ * @param edgeList A dictionary mapping hashes of pairs of vertex indices to
+ * edge indices.
+ * @returns The index of the edge.
+ */
+export const edgeIndex = function (
+  x: number,
+  y: number,
+  edges: number[][],
+  edgeList: number[]
+): number {
+  // Orders the edge's vertices.
+  if (x < y) {
+    const t = x;
+    x = y;
+    y = t;
+  }
+
+  const t = ((x + y + 1) * (x + y)) / 2 + y; // Cantor pairing function.
+  if (edgeList[t] === undefined) {
+    edgeList[t] = edges.length;
+    edges.push([x, y]);
+  }
+
+  return edgeList[t];
+};
+
+/**
+ * Helper function for the file parsers. Gets the edges of a face from its
+ * cycle of vertices, adding them to the element list if needed.
+ *
+ * @param indices The indices of the vertices of the face, in order.
+ * @param edges The edges of the polytope.
+ * @param edgeList A dictionary mapping hashes of pairs of vertex indices to
+ * edge indices.
+ * @returns The indices of the edges of the face.
+ */
+export const faceEdges = function (
+  indices: number[],
+  edges: number[][],
+  edgeList: number[]
+): number[] {
+  return indices.map((x, j) =>
+    edgeIndex(x, indices[(j + 1) % indices.length], edges, edgeList)
+  );
 };
 
 // Saves the file with the given data, the given MIME type,
@@ -75,8 +160,6 @@ export const saveBlob = function (blob: Blob): void {
  * @param e Either the event triggered by the import button,
  * or a local filepath.
  * @todo Replace P by `scene.polytope` or something similar.
- * @todo Add support for more file formats (like STL or OBJ).
- * @todo Rewrite the code with npm's fs.
  */
 export const openFile = function (e: Event | string): void {
   // If e is an event.
@@ -108,22 +191,44 @@ export const openFile = function (e: Event | string): void {
     switch (ext) {
       case "off":
         reader.onload = function (ev: ProgressEvent<FileReader>) {
-          onloadOFF((ev.target as FileReader).result as string);
+          globalThis.P = parseOFF(
+            (ev.target as FileReader).result as string,
+            fileName,
+            strictMode
+          );
         };
         reader.readAsText(file);
         break;
       case "ggb":
         reader.onload = function (ev: ProgressEvent<FileReader>) {
           if (ev.target && ev.target.result) {
-            JSZip.loadAsync(ev.target.result).then(function (zip: JSZip) {
-              const xml = zip.file("geogebra.xml");
-              if (xml) xml.async("string").then(onloadGGB);
-              else throw new Error("Invalid GeoGebra file!");
-            });
+            parseGGB(new Uint8Array(ev.target.result as ArrayBuffer)).then(
+              (P) => (globalThis.P = P)
+            );
           }
         };
         reader.readAsArrayBuffer(file);
         break;
+      case "obj":
+        reader.onload = function (ev: ProgressEvent<FileReader>) {
+          globalThis.P = parseOBJ(
+            (ev.target as FileReader).result as string,
+            fileName,
+            strictMode
+          );
+        };
+        reader.readAsText(file);
+        break;
+      case "stl":
+        reader.onload = function (ev: ProgressEvent<FileReader>) {
+          globalThis.P = parseSTL(
+            (ev.target as FileReader).result as ArrayBuffer,
+            fileName,
+            strictMode
+          );
+        };
+        reader.readAsArrayBuffer(file);
+        break;
     }
   }
 
@@ -146,7 +251,7 @@ export const openFile = function (e: Event | string): void {
     xhttp.onreadystatechange = function () {
       // this.status === 0 is for debug purposes only!
       if (this.readyState === 4 && this.status === 200) {
-        onloadOFF(this.responseText);
+        globalThis.P = parseOFF(this.responseText, fileName, strictMode);
       }
     };
 
@@ -154,311 +259,3 @@ export const openFile = function (e: Event | string): void {
     xhttp.send();
   }
 };
-
-/**
- * A GGB file is really just a ZIP file in disguise.
- * This ZIP file contains an XML called geogebra.xml.
- * This function will be called with this XML's data as a string.
- * It will store the 3D polyhedron into the global variable `P`.
- *
- * @param contents The contents of the file.
- * @todo Load the polyhedron into a scene,
- * instead of loading it into a global variable.
- */
-const onloadGGB = function (contents: string): void {
-  const caret = new Caret(contents);
-  const elementList: ElementList = [[], [], [], []];
-
-  // Dictionary to convert from GeoGebra point names to indices.
-  const vertDict: { [key: string]: number } = {};
-
-  // Dictionary to convert from edges to indices.
-  const edgeDict: { [key: number]: number } = {};
-
-  // The tags we're reading from the file.
-  const tagList = [
-    '<element type="point"',
-    '<element type="point3d"',
-    '<command name="Polygon">',
-  ];
-
-  let nextStringIndex: number;
-
-  while ((nextStringIndex = caret.skipToStringList(tagList)) != -1) {
-    switch (nextStringIndex) {
-      case 0: {
-        // Reading a 2D point.
-
-        // Reads the point name.
-        caret.skipToString('label="');
-        vertDict[caret.readUntil('"')] = elementList[0].length;
-
-        // Reads the coordinates.
-        caret.skipToString('<coords x="');
-
-        let x = caret.readNumber();
-        caret.advance(5);
-
-        let y = caret.readNumber();
-        caret.advance(5);
-
-        let z = caret.readNumber();
-        caret.advance(5);
-
-        x /= z;
-        y /= z;
-        z /= z;
-
-        elementList[0].push(new Point([x, y, 0]));
-        break;
-      }
-      case 1: {
-        // Reading a 3D point.
-
-        // Reads the point name.
-        caret.skipToString('label="');
-        vertDict[caret.readUntil('"')] = elementList[0].length;
-
-        // Reads the coordinates.
-        caret.skipToString('<coords x="');
-
-        let x = caret.readNumber();
-        caret.advance(5);
-
-        let y = caret.readNumber();
-        caret.advance(5);
-
-        let z = caret.readNumber();
-        caret.advance(5);
-
-        const w = caret.readNumber();
-        caret.advance(5);
-
-        x /= w;
-        y /= w;
-        z /= w;
-
-        elementList[0].push(new Point([x, y, z]));
-        break;
-      }
-      // Reading a polygon.
-      case 2: {
-        // Reads vertex names.
-        caret.skipToString("<input a0=");
-        const verts: number[] = [];
-        while (caret.getChar() !== "/") {
-          caret.skipToChar('"');
-          caret.increment();
-          const str = caret.readUntil('"');
-          verts.push(vertDict[str]);
-          caret.increment();
-        }
-        // Simulates a cyclic order.
-        verts.push(verts[0]);
-
-        // Adds edges.
-        const edges: number[] = [];
-        for (let i = 0; i < verts.length - 1; i++) {
-          // Orders the edge, so that their key (identifier) is unique.
-          const edge: [number, number] = [verts[i], verts[i + 1]];
-          if (edge[0] > edge[1]) {
-            const t = edge[0];
-            edge[0] = edge[1];
-            edge[1] = t;
-          }
-
-          // Adds the edge to elementList if needed.
-          const key: string = edge[0] + "_" + edge[1];
-          if (edgeDict[key] === undefined) {
-            edgeDict[key] = elementList[1].length;
-            elementList[1].push(edge);
-          }
-
-          edges.push(edgeDict[key]);
-        }
-
-        // Adds faces.
-        elementList[2].push(edges);
-        break;
-      }
-    }
-  }
-
-  // Gets components.
-  // Graph of incidences between facets.
-  const graph: Graph<number> = new Graph();
-  const facets = elementList[2];
-
-  for (let i = 0; i < facets.length; i++) graph.push(new GraphNode(i));
-
-  // Calculates incidences.
-  for (let i = 0; i < facets.length; i++) {
-    for (let j = i + 1; j < facets.length; j++) {
-      if (checkCommonElements(facets[i], facets[j]))
-        graph.nodes[i].linkTo(graph.nodes[j]);
-    }
-  }
-
-  // Gets components.
-  for (let i = 0; i < facets.length; i++) {
-    const component = graph.nodes[i].getComponent();
-    if (component) elementList[3].push(component.values());
-  }
-
-  globalThis.P = new PolytopeC(elementList);
-};
-
-/**
- * Helper function for [[`openFile`]].
- * Is called when an OFF file is loaded.
- *
- * @param contents The contents of the file.
- */
-const onloadOFF = function (contents: string): void {
-  // Caret for reading the OFF file.
-  const caret = new Caret(contents);
-
-  // The number of dimensions of the OFF file's polytope.
-  let dimensions = caret.readNumber();
-
-  // A dictionary mapping hashes of pairs of integers to edge indices.
-  const edgeList: number[] = [];
-
-  // The amount of vertices, edges, faces...
-  // elementCount[1] goes unused except for the special case of 2D components.
-  const elementCount: number[] = [];
-
-  // The elements of the described polytope.
-  const elementList: ElementList = [[]];
-
-  // The file just starts with OFF.
-  if (isNaN(dimensions)) dimensions = 3;
-
-  // Checks that the word OFF is the next thing on the file.
-  if (caret.readWord() !== "OFF") caret.throwError("invalidFile");
-
-  // Nullitope
-  if (dimensions === -1) {
-    globalThis.P = Build.nullitope();
-    return;
-  }
-
-  // Point
-  if (dimensions === 0) {
-    globalThis.P = Build.point();
-    return;
-  }
-
-  // Reads vertex amount.
-  if (dimensions >= 1) {
-    elementCount.push(caret.readNumber());
-    elementList.push([]);
-  }
-
-  // Reads face and edge amounts.
-  if (dimensions >= 3) {
-    elementCount.push(0, caret.readNumber());
-    // We *can't* actually care about the edge amount,
-    // since Stella itself ignores it, and it's often set to 0.
-    caret.readWord();
-    elementList.push([], []);
-  }
-
-  // Reads component amount in the special 2OFF case.
-  else if (dimensions === 2) {
-    elementCount.push(0, caret.readNumber());
-    elementList.push([]);
-  }
-
-  // Reads higher element amounts.
-  for (let i = 3; i < dimensions; i++) {
-    elementCount.push(caret.readNumber());
-    elementList.push([]);
-  }
-
-  // Adds vertices.
-  const vertices = elementList[0];
-  for (let i = 0; i < elementCount[0]; i++) {
-    const coords: number[] = [];
-    for (let j = 0; j < dimensions; j++) coords.push(caret.readNumber());
-    vertices.push(new Point(coords));
-  }
-
-  if (dimensions >= 2) {
-    const edges = elementList[1];
-    const faces = elementList[2];
-
-    // Adds faces and edges (or compounds in the special case).
-    for (let i = 0; i < elementCount[2]; i++) {
-      const indices: number[] = [];
-      const face: number[] = [];
-      const elCount = caret.readNumber();
-
-      // Retrieves vertices.
-      for (let j = 0; j < elCount; j++) indices.push(caret.readNumber());
-
-      // Creates edges.
-      for (let j = 0; j < elCount; j++) {
-        // Orders the edge's vertices.
-        let x = indices[j];
-        let y = indices[(j + 1) % elCount];
-
-        if (x < y) {
-          const t = x;
-          x = y;
-          y = t;
-        }
-
-        const t = ((x + y + 1) * (x + y)) / 2 + y; // Cantor pairing function.
-        if (edgeList[t] === undefined) {
-          edgeList[t] = elementList[1].length;
-          edges.push([x, y]);
-        }
-        face.push(edgeList[t]);
-      }
-
-      faces.push(face);
-    }
-  }
-
-  // Adds higher-dimensional elements.
-  for (let i = 3; i < dimensions; i++)
-    for (let j = 0; j < elementCount[i]; j++) {
-      const indices: number[] = [];
-      const elCount = caret.readNumber();
-
-      for (let t = 0; t < elCount; t++) indices.push(caret.readNumber());
-      (elementList[i] as number[][]).push(indices);
-    }
-
-  // Gets components. The 1D case is trivial.
-  if (dimensions === 1) {
-    const edges = elementList[1];
-    edges.push([]);
-    for (let i = 0; i < elementCount[0]; i++) edges[0].push(i);
-  }
-
-  // Gets components in higher dimensions, except in 2D,
-  // where they've already been retrieved.
-  else if (dimensions >= 3) {
-    // Graph of incidences between facets.
-    const graph: Graph<number> = new Graph();
-    const facets: number[][] = elementList[dimensions - 1] as number[][];
-    for (let i = 0; i < facets.length; i++) graph.push(new GraphNode(i));
-
-    // Calculates incidences.
-    for (let i = 0; i < facets.length; i++)
-      for (let j = i + 1; j < facets.length; j++)
-        if (checkCommonElements(facets[i], facets[j]))
-          graph.nodes[i].linkTo(graph.nodes[j]);
-
-    // Gets components.
-    const components = graph.getComponents();
-    for (let i = 0; i < components.length; i++)
-      (elementList[elementList.length - 1] as number[][]).push(
-        components[i].values()
-      );
-  }
-
-  globalThis.P = new PolytopeC(elementList, new CNName(fileName));
-};
@@ -0,0 +1,285 @@
+/**
+ * Contains the methods to turn a polytope into a triangle mesh in 3D space,
+ * shared by the exporters to the [[saveAsOBJ|OBJ]], [[saveAsSTL|STL]] and
+ * [[saveAsPLY|PLY]] formats.
+ *
+ * @packageDocumentation
+ * @module Mesh
+ * @category File
+ */
+
+import * as THREE from "three";
+import Point from "../geometry/Point";
+import Global from "../global";
+import { PolytopeB } from "../polytopes/types";
+import Projection from "../rendering/Projection";
+import Render from "../rendering/Render";
+import type Rotation from "../rendering/Rotation";
+
+/** The options shared by the exporters to mesh formats. */
+export interface MeshOptions {
+  /** The projection that sends the polytope into 3D space. Defaults to a
+   * perspective [[`Projection`]]. */
+  projection?: Projection;
+
+  /** A rotation to apply to the polytope in its own space, before it's
+   * projected. */
+  rotation?: Rotation;
+
+  /** Whether to emit the edges as cylinders and the vertices as spheres,
+   * instead of the faces. */
+  wireframe?: boolean;
+
+  /** The radius of the cylinders, relative to the size of the projected
+   * polytope. Defaults to 0.01. */
+  edgeRadius?: number;
+
+  /** The radius of the spheres, relative to the size of the projected
+   * polytope. Defaults to 0.02. */
+  vertexRadius?: number;
+
+  /** The number of sides of the cylinders, and of the slices of the spheres.
+   * Defaults to 12. */
+  segments?: number;
+}
+
+/** A triangle mesh in 3D space. */
+export interface Mesh {
+  /** The vertices of the mesh. */
+  vertices: Point[];
+
+  /** The indices of the vertices of each triangle. */
+  triangles: number[][];
+}
+
+/**
+ * Calculates the cross product of two vectors in 3D space.
+ *
+ * @param u The first vector.
+ * @param v The second vector.
+ * @returns The cross product of both vectors.
+ */
+export const cross = function (u: Point, v: Point): Point {
+  const [a, b, c] = u.coordinates;
+  const [x, y, z] = v.coordinates;
+
+  return new Point([b * z - c * y, c * x - a * z, a * y - b * x]);
+};
+
+/**
+ * Helper function for [[`toMesh`]]. Adds a closed cylinder to a mesh.
+ *
+ * @param mesh The mesh to add the cylinder to.
+ * @param a The center of the first base.
+ * @param b The center of the second base.
+ * @param radius The radius of the cylinder.
+ * @param segments The number of sides of the cylinder.
+ */
+const addCylinder = function (
+  mesh: Mesh,
+  a: Point,
+  b: Point,
+  radius: number,
+  segments: number
+): void {
+  const axis = b.subtract(a);
+  const length = axis.magnitude();
+  if (!length) return;
+  const d = axis.scale(1 / length);
+
+  // Two unit vectors perpendicular to the axis and to each other.
+  const coords = d.coordinates.map(Math.abs);
+  const e = new Point(3);
+  e.coordinates[coords.indexOf(Math.min(...coords))] = 1;
+  let u = cross(d, e);
+  u = u.scale(1 / u.magnitude());
+  const w = cross(d, u);
+
+  const start = mesh.vertices.length;
+  mesh.vertices.push(a, b);
+  for (let k = 0; k < segments; k++) {
+    const angle = (2 * Math.PI * k) / segments;
+    const offset = u
+      .scale(radius * Math.cos(angle))
+      .add(w.scale(radius * Math.sin(angle)));
+
+    mesh.vertices.push(a.add(offset), b.add(offset));
+  }
+
+  // The triangles are oriented so that their normals point outwards.
+  for (let k = 0; k < segments; k++) {
+    const a0 = start + 2 + 2 * k,
+      b0 = a0 + 1,
+      a1 = start + 2 + 2 * ((k + 1) % segments),
+      b1 = a1 + 1;
+
+    mesh.triangles.push(
+      [a0, b1, b0],
+      [a0, a1, b1],
+      [start, a1, a0],
+      [start + 1, b0, b1]
+    );
+  }
+};
+
+/**
+ * Helper function for [[`toMesh`]]. Adds a sphere to a mesh, split into
+ * slices and stacks.
+ *
+ * @param mesh The mesh to add the sphere to.
+ * @param center The center of the sphere.
+ * @param radius The radius of the sphere.
+ * @param segments The number of slices of the sphere. There are half as many
+ * stacks.
+ */
+const addSphere = function (
+  mesh: Mesh,
+  center: Point,
+  radius: number,
+  segments: number
+): void {
+  const stacks = Math.max(2, Math.ceil(segments / 2));
+  const start = mesh.vertices.length;
+
+  // The poles, followed by each ring of vertices from north to south.
+  mesh.vertices.push(
+    center.add(new Point([0, 0, radius])),
+    center.add(new Point([0, 0, -radius]))
+  );
+  for (let j = 1; j < stacks; j++) {
+    const theta = (Math.PI * j) / stacks;
+
+    for (let k = 0; k < segments; k++) {
+      const phi = (2 * Math.PI * k) / segments;
+      mesh.vertices.push(
+        center.add(
+          new Point([
+            radius * Math.sin(theta) * Math.cos(phi),
+            radius * Math.sin(theta) * Math.sin(phi),
+            radius * Math.cos(theta),
+          ])
+        )
+      );
+    }
+  }
+
+  const ring = (j: number, k: number): number =>
+    start + 2 + (j - 1) * segments + (k % segments);
+
+  // The triangles are oriented so that their normals point outwards.
+  for (let k = 0; k < segments; k++) {
+    mesh.triangles.push(
+      [start, ring(1, k), ring(1, k + 1)],
+      [start + 1, ring(stacks - 1, k + 1), ring(stacks - 1, k)]
+    );
+
+    for (let j = 1; j < stacks - 1; j++) {
+      mesh.triangles.push(
+        [ring(j, k), ring(j + 1, k), ring(j + 1, k + 1)],
+        [ring(j, k), ring(j + 1, k + 1), ring(j, k + 1)]
+      );
+    }
+  }
+};
+
+/**
+ * Turns a polytope into a triangle mesh in 3D space. The faces are split into
+ * simple polygons and triangulated just as when they're
+ * [[Render.to|rendered]], so that star polygons and non-convex faces come out
+ * correctly. Their triangles are oriented away from the center of the
+ * polytope, which gives a consistent orientation for convex polytopes.
+ * Alternatively, the edges and vertices can be turned into cylinders and
+ * spheres, so that the mesh is a printable wireframe.
+ *
+ * @param polytope The polytope to turn into a mesh.
+ * @param options The projection and wireframe options.
+ * @returns The triangle mesh.
+ */
+export const toMesh = function (
+  polytope: PolytopeB,
+  options: MeshOptions = {}
+): Mesh {
+  // The given projection may be the one of the scene, which mustn't change.
+  const projection = options.projection?.clone() ?? new Projection();
+  const mesh: Mesh = { vertices: [], triangles: [] };
+
+  let Q = polytope.toPolytopeC();
+  if (options.rotation) Q = Render.rotate(Q, options.rotation);
+
+  const vertices = Q.elementList[0];
+  if (!vertices) return mesh;
+  projection.fit(vertices);
+
+  // Wireframes are made out of the edges and vertices.
+  if (options.wireframe) {
+    const projected = vertices.map((v) => projection.project(v));
+    const size = Math.max(0, ...projected.map((v) => v.magnitude())) || 1;
+    const segments = options.segments ?? 12;
+
+    const edges = (Q.elementList[1] ?? []) as number[][];
+    for (let i = 0; i < edges.length; i++) {
+      addCylinder(
+        mesh,
+        projected[edges[i][0]],
+        projected[edges[i][1]],
+        (options.edgeRadius ?? 0.01) * size,
+        segments
+      );
+    }
+
+    for (let i = 0; i < projected.length; i++)
+      addSphere(
+        mesh,
+        projected[i],
+        (options.vertexRadius ?? 0.02) * size,
+        segments
+      );
+
+    return mesh;
+  }
+
+  // The index of each vertex in the mesh, including those created where the
+  // edges of a face intersect.
+  const indices = new Map<Point, number>();
+  const index = function (v: Point): number {
+    let res = indices.get(v);
+
+    if (res === undefined) {
+      res = mesh.vertices.length;
+      indices.set(v, res);
+      mesh.vertices.push(projection.project(v));
+    }
+
+    return res;
+  };
+
+  const faces = Q.elementList[2] ?? [];
+  for (let i = 0; i < faces.length; i++) {
+    const polygons = Render.polygons(Q, i);
+    if (!polygons) continue;
+
+    for (let j = 0; j < polygons.length; j++) {
+      const polygon = polygons[j];
+      const contour = polygon.map(
+        (v) =>
+          new THREE.Vector2(
+            v.coordinates[Global.index0],
+            v.coordinates[Global.index1]
+          )
+      );
+
+      // Orients the triangles away from the center of the polytope, which
+      // the projection places at the origin.
+      const triangles = THREE.ShapeUtils.triangulateShape(contour, []);
+      for (let k = 0; k < triangles.length; k++) {
+        const triangle = triangles[k].map((l) => index(polygon[l]));
+        const [a, b, c] = triangle.map((l) => mesh.vertices[l]);
+        if (a.dot(cross(b, c)) < 0) triangle.reverse();
+
+        mesh.triangles.push(triangle);
+      }
+    }
+  }
+
+  return mesh;
+};
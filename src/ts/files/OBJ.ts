@@ -0,0 +1,135 @@
+/**
+ * Contains the methods to read and write Wavefront OBJ files.
+ *
+ * @packageDocumentation
+ * @module OBJ
+ * @category File
+ */
+
+import { Name as CNName } from "../Data structures/Construction/Node";
+import Point from "../geometry/Point";
+import { ElementList, PolytopeB, PolytopeC } from "../polytopes/types";
+import * as Message from "../Translation/Basic/Message";
+import * as Library from "./Library";
+import { MeshOptions, toMesh } from "./Mesh";
+
+/**
+ * Reads a polytope from the contents of a Wavefront OBJ file. Only the `v`
+ * and `f` records are read, and faces with less than three vertices are
+ * ignored. Negative indices count backwards from the last vertex read. Every
+ * `o` or `g` record starts a new component, and the components are found as
+ * in OFF files if there are none of them.
+ *
+ * @param contents The contents of the file.
+ * @param name The name of the polytope.
+ * @param strict Whether to check the polytope with
+ * [[`PolytopeC.validate`]], throwing an error if it's malformed.
+ * @returns The polytope.
+ */
+export const parseOBJ = function (
+  contents: string,
+  name?: string,
+  strict = false
+): PolytopeC {
+  const elementList: ElementList = [[], [], [], []];
+  const [vertices, edges, faces] = elementList;
+  const edgeList: number[] = [];
+
+  // The faces in each group, and whether any group was declared.
+  const groups: number[][] = [[]];
+  let grouped = false;
+
+  const lines = contents.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/#.*/, "").trim();
+    if (!line) continue;
+
+    const words = line.split(/\s+/);
+    switch (words[0]) {
+      case "v": {
+        const coords = words.slice(1, 4).map(parseFloat);
+        if (coords.length < 3 || coords.some(isNaN))
+          Message.error("error/invalidVertex", { arg0: (i + 1).toString() });
+
+        vertices.push(new Point(coords));
+        break;
+      }
+      case "f": {
+        // Only the vertex index matters, not the texture or normal ones.
+        const indices = words.slice(1).map((word) => {
+          let index = parseInt(word.split("/")[0]);
+          index = index < 0 ? vertices.length + index : index - 1;
+
+          if (isNaN(index) || index < 0 || index >= vertices.length)
+            Message.error("error/invalidIndex", { arg0: (i + 1).toString() });
+
+          return index;
+        });
+
+        if (indices.length < 3) break;
+        groups[groups.length - 1].push(faces.length);
+        faces.push(Library.faceEdges(indices, edges, edgeList));
+        break;
+      }
+      case "o":
+      case "g":
+        grouped = true;
+        groups.push([]);
+        break;
+    }
+  }
+
+  elementList[3] = grouped
+    ? groups.filter((group) => group.length)
+    : Library.getComponents(faces);
+
+  const P = new PolytopeC(
+    elementList,
+    name === undefined ? undefined : new CNName(name)
+  );
+  if (strict) P.validate(true);
+
+  return P;
+};
+
+/**
+ * Writes a polytope as the contents of a Wavefront OBJ file, after turning it
+ * into a [[toMesh|triangle mesh]].
+ *
+ * @param polytope The polytope to be written.
+ * @param options The projection and wireframe options.
+ * @returns The contents of the OBJ file.
+ */
+export const serializeOBJ = function (
+  polytope: PolytopeB,
+  options: MeshOptions = {}
+): string {
+  const mesh = toMesh(polytope, options);
+  const name = Message.firstToUpper(polytope.getName());
+  const data: string[] = ["# ", name, "\no ", name.replace(/\s/g, "_"), "\n"];
+
+  for (let i = 0; i < mesh.vertices.length; i++)
+    data.push("v ", mesh.vertices[i].coordinates.join(" "), "\n");
+
+  // OBJ indices start at 1.
+  for (let i = 0; i < mesh.triangles.length; i++)
+    data.push("f ", mesh.triangles[i].map((j) => j + 1).join(" "), "\n");
+
+  return data.join("");
+};
+
+/**
+ * Saves a polytope as a Wavefront OBJ file, as written by [[`serializeOBJ`]].
+ *
+ * @param polytope The polytope to be saved.
+ * @param options The projection and wireframe options.
+ */
+export const saveAsOBJ = function (
+  polytope: PolytopeB,
+  options: MeshOptions = {}
+): void {
+  Library.setFileName(Message.firstToUpper(polytope.getName()) + ".obj");
+  Library.saveBlob(
+    new Blob([serializeOBJ(polytope, options)], { type: "text/plain" })
+  );
+};
@@ -1,36 +1,264 @@
-import { PolytopeB } from "../polytopes/types";
+/**
+ * Contains the methods to read and write OFF files, the format Stella and
+ * Miratope's own library use.
+ *
+ * @packageDocumentation
+ * @module OFF
+ * @category File
+ */
+
+import { Name as CNName } from "../Data structures/Construction/Node";
+import Point from "../geometry/Point";
+import { report } from "../polytopes/analysis";
+import * as Build from "../polytopes/classes/Build";
+import { ElementList, PolytopeB, PolytopeC } from "../polytopes/types";
 import * as Message from "../Translation/Basic/Message";
 import { Language } from "../Translation/Language";
+import Caret from "./Caret";
 import * as Library from "./Library";
 
 export interface OFFOptions {
+  /** Whether to name the element counts and the elements of each rank in
+   * comments, when the polytope has no comments of its own. */
   comments?: boolean;
+
+  /** Whether to write the element counts, Euler characteristic,
+   * orientability and face types of the polytope as a comment. */
+  info?: boolean;
+}
+
+/** Whatever an OFF file stores besides the elements of its polytope, so that
+ * it can be written back by [[`serializeOFF`]]. */
+export interface OFFData {
+  /** The comments before the element counts. */
+  header: string[];
+
+  /** The comments before the elements of each rank, where the vertices have
+   * rank 0. These usually hold the names of the elements. */
+  elements: string[][];
+
+  /** The comments after every element. */
+  trailing: string[];
+
+  /** The numbers after the indices of each element of each rank, such as the
+   * face colors in Stella's files. */
+  colors: number[][][];
 }
 
 /**
- * Saves the current polytope as an OFF file.
+ * Helper function for [[`serializeOFF`]]. Gets the vertices of a face in the
+ * same order as its edges, so that reading them back gives the same edges in
+ * the same order.
  *
- * @param polytope The polytope to be saved.
+ * @param P The polytope the face belongs to.
+ * @param i The index of the face.
+ * @returns The cycle of vertex indices of the face.
+ */
+const faceCycle = function (P: PolytopeC, i: number): number[] {
+  const edges = P.elementList[1] as number[][];
+  const face = (P.elementList[2] as number[][])[i];
+
+  if (face.length >= 2) {
+    const [a, b] = edges[face[0]];
+    const res = [edges[face[1]].includes(a) ? b : a];
+    for (let j = 0; j < face.length - 1; j++) {
+      const [x, y] = edges[face[j]];
+      res.push(x === res[j] ? y : x);
+    }
+
+    // Checks that every edge joins consecutive vertices of the cycle.
+    if (
+      res.every((x, j) => {
+        const y = res[(j + 1) % res.length];
+        const edge = edges[face[j]];
+        return edge.includes(x) && edge.includes(y);
+      })
+    )
+      return res;
+  }
+
+  return P.faceToVertices(i);
+};
+
+/**
+ * Reads a polytope from the contents of an OFF file. The header gives the
+ * dimension of the space, while the number of element counts gives the rank
+ * of the polytope, which may be lower. Any numbers after the indices of an
+ * element, such as the face colors in Stella's files, and any comments, are
+ * stored in [[PolytopeC.offData|`offData`]], so that [[`serializeOFF`]] can
+ * write them back.
+ *
+ * @param contents The contents of the file.
+ * @param name The name of the polytope.
+ * @param strict Whether to check the polytope with
+ * [[`PolytopeC.validate`]], throwing an error if it's malformed.
+ * @returns The polytope.
+ */
+export const parseOFF = function (
+  contents: string,
+  name?: string,
+  strict = false
+): PolytopeC {
+  // Caret for reading the OFF file.
+  const caret = new Caret(contents);
+
+  // The number of dimensions of the space of the OFF file's polytope.
+  let dimensions = caret.readNumber();
+
+  // A dictionary mapping hashes of pairs of integers to edge indices.
+  const edgeList: number[] = [];
+
+  // The file just starts with OFF.
+  if (isNaN(dimensions)) dimensions = 3;
+
+  // Checks that the word OFF is the next thing on the file.
+  if (caret.readWord() !== "OFF") caret.throwError("invalidFile");
+
+  // Nullitope
+  if (dimensions === -1) return Build.nullitope().toPolytopeC();
+
+  // Point
+  if (dimensions === 0) return Build.point().toPolytopeC();
+
+  // The comments and colors of the file.
+  const offData: OFFData = {
+    header: caret.comments.splice(0),
+    elements: [],
+    trailing: [],
+    colors: [],
+  };
+
+  // The amount of vertices, faces, edges, and so on, in a single line, or
+  // those of vertices and components in the special 2D case.
+  const elementCount = caret.readLineNumbers();
+  const rank = elementCount.length;
+  if (rank > dimensions) caret.throwError("invalidFile");
+
+  // Sorts the element counts by rank.
+  const edgeCount = rank >= 3 ? elementCount.splice(2, 1)[0] : 0;
+  elementCount.splice(1, 0, edgeCount);
+
+  // The elements of the described polytope.
+  const elementList: ElementList = [[]];
+  for (let r = 1; r <= rank; r++) elementList.push([]);
+
+  // Adds vertices.
+  offData.elements[0] = caret.comments.splice(0);
+  const vertices = elementList[0];
+  for (let i = 0; i < elementCount[0]; i++) {
+    const coords = caret.readLineNumbers();
+    if (coords.length < dimensions) caret.throwError("invalidFile");
+    vertices.push(new Point(coords.slice(0, dimensions)));
+  }
+
+  // Adds faces and edges (or components in the special 2D case), and then
+  // higher-dimensional elements, except for the facets.
+  for (let r = 2; r <= Math.max(rank - 1, 2) && r <= rank; r++) {
+    offData.elements[r] = caret.comments.splice(0);
+    offData.colors[r] = [];
+
+    for (let i = 0; i < elementCount[r]; i++) {
+      const numbers = caret.readLineNumbers();
+      const elCount = numbers[0];
+      if (numbers.length <= elCount) caret.throwError("invalidFile");
+
+      const indices = numbers.slice(1, elCount + 1);
+      if (numbers.length > elCount + 1)
+        offData.colors[r][i] = numbers.slice(elCount + 1);
+
+      // Creates edges.
+      if (r === 2)
+        elementList[2].push(
+          Library.faceEdges(indices, elementList[1], edgeList)
+        );
+      else (elementList[r] as number[][]).push(indices);
+    }
+  }
+
+  offData.trailing = caret.comments.splice(0);
+
+  // Stella itself ignores the edge amount, and it's often set to 0.
+  if (strict && edgeCount && edgeCount !== elementList[1].length) {
+    Message.error("error/edgeCount", {
+      arg0: edgeCount.toString(),
+      arg1: elementList[1].length.toString(),
+    });
+  }
+
+  // Gets components. The 1D case is trivial.
+  if (rank === 1) {
+    const edges = elementList[1];
+    edges.push([]);
+    for (let i = 0; i < elementCount[0]; i++) edges[0].push(i);
+  }
+
+  // Gets components in higher dimensions, except in 2D,
+  // where they've already been retrieved.
+  else if (rank >= 3) {
+    elementList[rank] = Library.getComponents(
+      elementList[rank - 1] as number[][]
+    );
+  }
+
+  const P = new PolytopeC(
+    elementList,
+    name === undefined ? undefined : new CNName(name)
+  );
+  P.offData = offData;
+  if (strict) P.validate(true);
+
+  return P;
+};
+
+/**
+ * Writes a polytope as the contents of an OFF file. Polytopes in spaces with
+ * more dimensions than themselves are written with a header for the dimension
+ * of the space, followed by the element counts up to their own rank, as in
+ * Stella's 4OFF files. The comments and colors of a polytope read from an OFF
+ * file are written back into it.
+ *
+ * @param polytope The polytope to be written.
  * @param options The file saving options.
+ * @returns The contents of the OFF file.
  */
-export const saveAsOFF = function (
+export const serializeOFF = function (
   polytope: PolytopeB,
   options: OFFOptions = {}
-): void {
+): string {
   const P = polytope.toPolytopeC();
+  const rank = P.dimensions;
+  const offData = P.offData;
 
-  // Maybe automatically project the polytope?
-  if (P.spaceDimensions > P.dimensions) {
-    throw new Error(
-      "The OFF format does not support polytopes in spaces with more dimensions than themselves."
-    );
-  }
+  // The number of coordinates of each vertex. Fills in zeros if
+  // spaceDimensions < dimensions.
+  const dimensions = Math.max(rank, P.spaceDimensions);
 
-  // The contexts of the OFF file, as an array of plaintext strings.
+  // The contents of the OFF file, as an array of plaintext strings.
   const data: string[] = [];
   // I should be using precise counts here.
   const pluralAndUppercase = { count: 1000, uppercase: true };
-  const comments = options.comments;
+
+  // Writes the comments read from the file, or otherwise, optionally,
+  // a comment with the given names.
+  const writeComments = function (
+    stored: string[] | undefined,
+    names: string[],
+    lineBreak = true
+  ): void {
+    if (stored && stored.length) {
+      if (lineBreak) data.push("\n");
+      for (let i = 0; i < stored.length; i++) data.push("#", stored[i], "\n");
+    } else if (options.comments && names.length) {
+      if (lineBreak) data.push("\n");
+      data.push("# ", names.join(", "), "\n");
+    }
+  };
+
+  // The names of the elements of each rank.
+  const name = (r: number): string =>
+    r === 2 && rank === 2
+      ? Message.get("misc/component", pluralAndUppercase)
+      : Language.element(r, pluralAndUppercase);
 
   // The element counts of the polytope, as strings.
   const elementCounts: number[] = [];
@@ -38,143 +266,75 @@ export const saveAsOFF = function (
     elementCounts.push(P.elementList[i].length);
   }
 
-  // Writes the element counts, and optionally,
-  // leaves a comment listing their names in order.
-  switch (P.dimensions) {
-    case -1: // LMAO
-      data.push("-1OFF");
-      break;
-    case 0: // LOL
-      data.push("0OFF");
-      break;
-    case 1: // Also LOL
-      data.push("1OFF\n");
-      if (comments) {
-        data.push("# ", Language.element(0, pluralAndUppercase), "\n");
-      }
-      data.push(elementCounts[0].toString(), "\n");
-      break;
-    case 2:
-      data.push("2OFF\n");
-      if (comments) {
-        data.push(
-          "# ",
-          Language.element(0, pluralAndUppercase),
-          ", ",
-          Message.get("misc/component", pluralAndUppercase),
-          "\n"
-        );
-      }
-      data.push(
-        elementCounts[0].toString(),
-        " ",
-        elementCounts[2].toString(),
-        "\n"
-      );
-      break;
-    case 3:
-      data.push("OFF\n"); // For compatibility with Stella.
-      if (comments) {
-        data.push(
-          "# ",
-          Language.element(0, pluralAndUppercase),
-          ", ",
-          Language.element(2, pluralAndUppercase),
-          ", ",
-          Language.element(1, pluralAndUppercase),
-          "\n"
-        );
-      }
-      data.push(
-        elementCounts[0].toString(),
-        " ",
-        elementCounts[2].toString(),
-        " ",
-        elementCounts[1].toString(),
-        "\n"
-      );
-      break;
-    default:
-      data.push(P.dimensions.toString(), "OFF\n");
-      if (comments) {
-        data.push(
-          "# ",
-          Language.element(0, pluralAndUppercase),
-          ", ",
-          Language.element(2, pluralAndUppercase),
-          ", ",
-          Language.element(1, pluralAndUppercase)
-        );
-        for (let i = 3; i < P.dimensions; i++) {
-          data.push(", ", Language.element(i, pluralAndUppercase));
-        }
-        data.push("\n");
-      }
-      data.push(
-        elementCounts[0].toString(),
-        " ",
-        elementCounts[2].toString(),
-        " ",
-        elementCounts[1].toString(),
-        " "
-      );
-      for (let i = 3; i < P.dimensions - 1; i++) {
-        data.push(elementCounts[i].toString(), " ");
-      }
-      data.push(elementCounts[P.dimensions - 1].toString(), "\n");
-  }
+  // The ranks of the elements written after the vertices. These are the
+  // faces and above, except for the facets, which are found when loading the
+  // file. Polygons are the exception, as their components are written.
+  const ranks: number[] = [];
+  for (let r = 2; r <= Math.max(rank - 1, 2) && r <= rank; r++) ranks.push(r);
 
-  // Adds vertices. Fills in zeros if spaceDimensions < dimensions.
-  if (comments)
-    data.push("\n# ", Language.element(0, pluralAndUppercase), "\n");
+  // The header. "OFF" is used for compatibility with Stella.
+  if (rank === 3 && dimensions === 3) data.push("OFF\n");
+  else data.push(rank <= 0 ? rank.toString() : dimensions.toString(), "OFF\n");
 
-  if (P.elementList[0]) {
-    for (let i = 0; i < P.elementList[0].length; i++) {
-      for (let j = 0; j < P.dimensions - 1; j++) {
-        const coord = P.elementList[0][i].coordinates[j];
-        if (coord === undefined) data.push("0 ");
-        else data.push(coord.toString(), " ");
-      }
-      const coord = P.elementList[0][i].coordinates[P.dimensions - 1];
-      if (coord === undefined) data.push("0\n");
-      else data.push(coord.toString(), "\n");
-    }
-  }
+  // The nullitope and the point have no elements to write.
+  if (rank >= 1) {
+    // Writes the element counts, and optionally,
+    // leaves a comment listing their names in order.
+    const counts = rank >= 3 ? [0, 2, 1, ...ranks.slice(1)] : [0, ...ranks];
+    writeComments(offData?.header, counts.map(name), false);
+    data.push(counts.map((r) => elementCounts[r].toString()).join(" "), "\n");
 
-  // Adds faces, or copmonents for compound polygons.
-  if (P.elementList[2]) {
-    if (comments) {
-      if (P.dimensions === 2) {
-        data.push(
-          "\n# ",
-          Message.get("misc/component", pluralAndUppercase),
-          "\n"
-        );
-      } else data.push("\n# ", Language.element(2, pluralAndUppercase), "\n");
+    // Adds vertices.
+    writeComments(offData?.elements[0], [name(0)]);
+    const vertices = P.elementList[0] as Point[];
+    for (let i = 0; i < vertices.length; i++) {
+      const coords: string[] = [];
+      for (let j = 0; j < dimensions; j++)
+        coords.push((vertices[i].coordinates[j] ?? 0).toString());
+      data.push(coords.join(" "), "\n");
     }
-    for (let i = 0; i < elementCounts[2]; i++) {
-      const vertices = P.faceToVertices(i);
-      data.push(P.elementList[2][i].length.toString());
-      for (let j = 0; j < P.elementList[2][i].length; j++) {
-        data.push(" ", vertices[j].toString());
+
+    // Adds faces, or components for compound polygons, and the rest of the
+    // elements.
+    for (let k = 0; k < ranks.length; k++) {
+      const r = ranks[k];
+      const elements = P.elementList[r] as number[][];
+      const colors = offData?.colors[r] ?? [];
+
+      writeComments(offData?.elements[r], [name(r)]);
+      for (let i = 0; i < elements.length; i++) {
+        const indices = r === 2 ? faceCycle(P, i) : elements[i];
+        data.push(indices.length.toString(), " ", indices.join(" "));
+        if (colors[i]) data.push(" ", colors[i].join(" "));
+        data.push("\n");
       }
-      data.push("\n");
     }
   }
 
-  // Adds the rest of the elements.
-  for (let d = 3; d < P.dimensions; d++) {
-    if (comments) {
-      data.push("\n# ", Language.element(d, pluralAndUppercase), "\n");
-    }
-    for (let i = 0; i < P.elementList[d].length; i++) {
-      const len: number = (P.elementList[d] as number[][])[i].length;
-      data.push(len.toString());
-      for (let j = 0; j < len; j++) data.push(" ", P.elementList[d][i][j]);
-      data.push("\n");
-    }
-  }
+  // Adds the information about the polytope, or the comments at the end of
+  // the file it was read from.
+  if (options.info) {
+    data.push("\n");
+    const lines = report(P);
+    for (let i = 0; i < lines.length; i++) data.push("# ", lines[i], "\n");
+  } else writeComments(offData?.trailing, []);
 
-  Library.setFileName(Message.firstToUpper(P.getName()) + ".off");
-  Library.saveBlob(new Blob(data, { type: "text/plain" }));
+  return data.join("");
+};
+
+/**
+ * Saves the current polytope as an OFF file, as written by
+ * [[`serializeOFF`]].
+ *
+ * @param polytope The polytope to be saved.
+ * @param options The file saving options.
+ */
+export const saveAsOFF = function (
+  polytope: PolytopeB,
+  options: OFFOptions = {}
+): void {
+  Library.setFileName(Message.firstToUpper(polytope.getName()) + ".off");
+  Library.saveBlob(
+    new Blob([serializeOFF(polytope, options)], { type: "text/plain" })
+  );
 };
@@ -0,0 +1,61 @@
+/**
+ * Contains the methods to write PLY files.
+ *
+ * @packageDocumentation
+ * @module PLY
+ * @category File
+ */
+
+import { PolytopeB } from "../polytopes/types";
+import * as Message from "../Translation/Basic/Message";
+import * as Library from "./Library";
+import { MeshOptions, toMesh } from "./Mesh";
+
+/**
+ * Writes a polytope as the contents of an ASCII PLY file, after turning it
+ * into a [[toMesh|triangle mesh]].
+ *
+ * @param polytope The polytope to be written.
+ * @param options The projection and wireframe options.
+ * @returns The contents of the PLY file.
+ */
+export const serializePLY = function (
+  polytope: PolytopeB,
+  options: MeshOptions = {}
+): string {
+  const mesh = toMesh(polytope, options);
+  const name = Message.firstToUpper(polytope.getName());
+  const data: string[] = [
+    "ply\nformat ascii 1.0\ncomment ",
+    name,
+    "\nelement vertex ",
+    mesh.vertices.length.toString(),
+    "\nproperty float x\nproperty float y\nproperty float z\nelement face ",
+    mesh.triangles.length.toString(),
+    "\nproperty list uchar int vertex_indices\nend_header\n",
+  ];
+
+  for (let i = 0; i < mesh.vertices.length; i++)
+    data.push(mesh.vertices[i].coordinates.join(" "), "\n");
+
+  for (let i = 0; i < mesh.triangles.length; i++)
+    data.push("3 ", mesh.triangles[i].join(" "), "\n");
+
+  return data.join("");
+};
+
+/**
+ * Saves a polytope as an ASCII PLY file, as written by [[`serializePLY`]].
+ *
+ * @param polytope The polytope to be saved.
+ * @param options The projection and wireframe options.
+ */
+export const saveAsPLY = function (
+  polytope: PolytopeB,
+  options: MeshOptions = {}
+): void {
+  Library.setFileName(Message.firstToUpper(polytope.getName()) + ".ply");
+  Library.saveBlob(
+    new Blob([serializePLY(polytope, options)], { type: "text/plain" })
+  );
+};
@@ -0,0 +1,350 @@
+/**
+ * Contains the methods to read and write STL files.
+ *
+ * @packageDocumentation
+ * @module STL
+ * @category File
+ */
+
+import { Name as CNName } from "../Data structures/Construction/Node";
+import Point from "../geometry/Point";
+import * as Space from "../geometry/Space";
+import { ElementList, PolytopeB, PolytopeC } from "../polytopes/types";
+import * as Message from "../Translation/Basic/Message";
+import * as Library from "./Library";
+import { cross, MeshOptions, toMesh } from "./Mesh";
+
+/** The distance within which the vertices of an STL file are identified,
+ * relative to the size of its bounding box. */
+const WELD_TOLERANCE = 1e-6;
+
+/** How far from 1 the dot product of the normals of two adjacent triangles in
+ * an STL file can be for them to be merged into a single face. */
+const COPLANAR_TOLERANCE = 1e-6;
+
+export interface STLOptions extends MeshOptions {
+  /** Whether to write an ASCII file instead of a binary one. */
+  ascii?: boolean;
+}
+
+/**
+ * Helper function for [[`parseSTL`]]. Tells binary STL files apart from
+ * ASCII ones by their size. Binary files have an 80 byte header, followed by
+ * the number of triangles and 50 bytes per triangle.
+ *
+ * @param contents The contents of the file.
+ * @returns Whether the file is binary.
+ */
+const isBinary = function (contents: ArrayBuffer): boolean {
+  return (
+    contents.byteLength >= 84 &&
+    contents.byteLength === 84 + 50 * new DataView(contents).getUint32(80, true)
+  );
+};
+
+/**
+ * Helper function for [[`parseSTL`]]. Reads the triangles of an STL file.
+ *
+ * @param contents The contents of the file.
+ * @returns The vertices of each triangle.
+ */
+const readSTL = function (contents: ArrayBuffer): Point[][] {
+  const triangles: Point[][] = [];
+  const view = new DataView(contents);
+
+  if (isBinary(contents)) {
+    for (let pos = 84; pos < contents.byteLength; pos += 50) {
+      const triangle: Point[] = [];
+
+      // Skips the normal vector.
+      for (let j = 1; j <= 3; j++) {
+        const coords: number[] = [];
+        for (let k = 0; k < 3; k++)
+          coords.push(view.getFloat32(pos + 12 * j + 4 * k, true));
+
+        triangle.push(new Point(coords));
+      }
+
+      triangles.push(triangle);
+    }
+
+    return triangles;
+  }
+
+  const lines = new TextDecoder().decode(contents).split("\n");
+  let triangle: Point[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const words = lines[i].trim().split(/\s+/);
+
+    switch (words[0]) {
+      case "vertex": {
+        const coords = words.slice(1, 4).map(parseFloat);
+        if (coords.length < 3 || coords.some(isNaN))
+          Message.error("error/invalidVertex", { arg0: (i + 1).toString() });
+
+        triangle.push(new Point(coords));
+        break;
+      }
+      case "endloop":
+        if (triangle.length !== 3)
+          Message.error("error/invalidVertex", { arg0: (i + 1).toString() });
+
+        triangles.push(triangle);
+        triangle = [];
+        break;
+    }
+  }
+
+  return triangles;
+};
+
+/**
+ * Helper function for [[`parseSTL`]]. Identifies the vertices of some
+ * triangles that are within [[`WELD_TOLERANCE`]] of one another.
+ *
+ * @param triangles The vertices of each triangle.
+ * @returns The distinct vertices, the indices of the vertices of each
+ * triangle, and the distance within which the vertices were welded.
+ */
+const weld = function (triangles: Point[][]): [Point[], number[][], number] {
+  const vertices: Point[] = [];
+  const indices: number[][] = [];
+
+  // The tolerance is taken relative to the size of the bounding box.
+  let size = 0;
+  for (let i = 0; i < triangles.length; i++)
+    for (let j = 0; j < 3; j++)
+      for (let k = 0; k < 3; k++)
+        size = Math.max(size, Math.abs(triangles[i][j].coordinates[k]));
+  const tolerance = WELD_TOLERANCE * (size || 1);
+
+  // Buckets the vertices in a grid, so that only the vertices in the
+  // neighboring cells need to be compared.
+  const grid = new Map<string, number[]>();
+  const cell = (v: Point): number[] =>
+    v.coordinates.map((x) => Math.floor(x / tolerance));
+
+  const find = function (v: Point): number {
+    const [x, y, z] = cell(v);
+
+    for (let i = x - 1; i <= x + 1; i++)
+      for (let j = y - 1; j <= y + 1; j++)
+        for (let k = z - 1; k <= z + 1; k++) {
+          const bucket = grid.get(i + "," + j + "," + k);
+          if (!bucket) continue;
+
+          for (let l = 0; l < bucket.length; l++)
+            if (Space.distance(v, vertices[bucket[l]]) <= tolerance)
+              return bucket[l];
+        }
+
+    const key = cell(v).join();
+    if (!grid.has(key)) grid.set(key, []);
+    (grid.get(key) as number[]).push(vertices.length);
+    vertices.push(v);
+
+    return vertices.length - 1;
+  };
+
+  for (let i = 0; i < triangles.length; i++)
+    indices.push(triangles[i].map(find));
+
+  return [vertices, indices, tolerance];
+};
+
+/**
+ * Reads a polytope from the contents of an STL file, either in ASCII or
+ * binary format. Close vertices are [[welded together|`weld`]], and adjacent
+ * coplanar triangles are merged into a single polygon, whose edges are those
+ * that belong to only one of the triangles. The components are then found as
+ * in OFF files. Since binary files store single-precision coordinates, the
+ * [[PolytopeC.tolerance|`tolerance`]] of their polytopes is that of the
+ * welding.
+ *
+ * @param contents The contents of the file.
+ * @param name The name of the polytope.
+ * @param strict Whether to check the polytope with
+ * [[`PolytopeC.validate`]], throwing an error if it's malformed.
+ * @returns The polytope.
+ */
+export const parseSTL = function (
+  contents: ArrayBuffer,
+  name?: string,
+  strict = false
+): PolytopeC {
+  const [vertices, weldedTriangles, tolerance] = weld(readSTL(contents));
+
+  // Removes the triangles that collapsed into a segment or a point.
+  const triangles: number[][] = [];
+  const normals: Point[] = [];
+  for (let i = 0; i < weldedTriangles.length; i++) {
+    const [a, b, c] = weldedTriangles[i].map((j) => vertices[j]);
+    const u = b.subtract(a).coordinates,
+      v = c.subtract(a).coordinates;
+    const normal = new Point([
+      u[1] * v[2] - u[2] * v[1],
+      u[2] * v[0] - u[0] * v[2],
+      u[0] * v[1] - u[1] * v[0],
+    ]);
+
+    const norm = normal.magnitude();
+    if (norm === 0) continue;
+
+    triangles.push(weldedTriangles[i]);
+    normals.push(normal.scale(1 / norm));
+  }
+
+  // The triangles each edge belongs to.
+  const edgeKey = (x: number, y: number): string =>
+    Math.min(x, y) + "_" + Math.max(x, y);
+  const edgeTriangles = new Map<string, number[]>();
+  for (let i = 0; i < triangles.length; i++) {
+    for (let j = 0; j < 3; j++) {
+      const key = edgeKey(triangles[i][j], triangles[i][(j + 1) % 3]);
+      if (!edgeTriangles.has(key)) edgeTriangles.set(key, []);
+      (edgeTriangles.get(key) as number[]).push(i);
+    }
+  }
+
+  // Merges adjacent coplanar triangles, via a union-find.
+  const parent = triangles.map((_t, i) => i);
+  const find = function (i: number): number {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+
+  edgeTriangles.forEach((adjacent) => {
+    if (adjacent.length !== 2) return;
+    const [i, j] = adjacent;
+
+    if (normals[i].dot(normals[j]) >= 1 - COPLANAR_TOLERANCE)
+      parent[find(i)] = find(j);
+  });
+
+  // The edges of each face are those belonging to exactly one of its
+  // triangles.
+  const elementList: ElementList = [vertices, [], [], []];
+  const [, edges, faces] = elementList;
+  const edgeList: number[] = [];
+  const faceIndices = new Map<number, number>();
+  const faceEdgeCounts: Map<string, number>[] = [];
+
+  for (let i = 0; i < triangles.length; i++) {
+    const root = find(i);
+    if (!faceIndices.has(root)) {
+      faceIndices.set(root, faceEdgeCounts.length);
+      faceEdgeCounts.push(new Map());
+    }
+
+    const counts = faceEdgeCounts[faceIndices.get(root) as number];
+    for (let j = 0; j < 3; j++) {
+      const key = edgeKey(triangles[i][j], triangles[i][(j + 1) % 3]);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  for (let i = 0; i < faceEdgeCounts.length; i++) {
+    const face: number[] = [];
+
+    faceEdgeCounts[i].forEach((count, key) => {
+      if (count !== 1) return;
+      const [x, y] = key.split("_").map(Number);
+      face.push(Library.edgeIndex(x, y, edges, edgeList));
+    });
+
+    faces.push(face);
+  }
+
+  elementList[3] = Library.getComponents(faces);
+
+  const P = new PolytopeC(
+    elementList,
+    name === undefined ? undefined : new CNName(name)
+  );
+  if (isBinary(contents)) P.tolerance = tolerance;
+  if (strict) P.validate(true);
+
+  return P;
+};
+
+/**
+ * Writes a polytope as the contents of an STL file, after turning it into a
+ * [[toMesh|triangle mesh]]. The normal of each triangle is calculated from
+ * the order of its vertices.
+ *
+ * @param polytope The polytope to be written.
+ * @param options The file format, projection and wireframe options.
+ * @returns The contents of the STL file, as text for ASCII files.
+ */
+export const serializeSTL = function (
+  polytope: PolytopeB,
+  options: STLOptions = {}
+): string | ArrayBuffer {
+  const mesh = toMesh(polytope, options);
+  const name = Message.firstToUpper(polytope.getName());
+
+  const triangles = mesh.triangles.map((triangle) =>
+    triangle.map((i) => mesh.vertices[i])
+  );
+  const normals = triangles.map(([a, b, c]) => {
+    const normal = cross(b.subtract(a), c.subtract(a));
+    const norm = normal.magnitude();
+    return norm ? normal.scale(1 / norm) : normal;
+  });
+
+  if (options.ascii) {
+    const data: string[] = ["solid ", name, "\n"];
+
+    for (let i = 0; i < triangles.length; i++) {
+      data.push(
+        "facet normal ",
+        normals[i].coordinates.join(" "),
+        "\nouter loop\n"
+      );
+      for (let j = 0; j < 3; j++)
+        data.push("vertex ", triangles[i][j].coordinates.join(" "), "\n");
+      data.push("endloop\nendfacet\n");
+    }
+
+    data.push("endsolid ", name, "\n");
+    return data.join("");
+  }
+
+  // An 80 byte header, the number of triangles, and 50 bytes per triangle:
+  // the normal, the vertices, and an unused attribute.
+  const buffer = new ArrayBuffer(84 + 50 * triangles.length);
+  const view = new DataView(buffer);
+  view.setUint32(80, triangles.length, true);
+
+  for (let i = 0; i < triangles.length; i++) {
+    const vectors = [normals[i]].concat(triangles[i]);
+
+    for (let j = 0; j < 4; j++)
+      for (let k = 0; k < 3; k++)
+        view.setFloat32(
+          84 + 50 * i + 12 * j + 4 * k,
+          vectors[j].coordinates[k],
+          true
+        );
+  }
+
+  return buffer;
+};
+
+/**
+ * Saves a polytope as an STL file, as written by [[`serializeSTL`]].
+ *
+ * @param polytope The polytope to be saved.
+ * @param options The file format, projection and wireframe options.
+ */
+export const saveAsSTL = function (
+  polytope: PolytopeB,
+  options: STLOptions = {}
+): void {
+  Library.setFileName(Message.firstToUpper(polytope.getName()) + ".stl");
+  Library.saveBlob(
+    new Blob([serializeSTL(polytope, options)], {
+      type: options.ascii ? "text/plain" : "model/stl",
+    })
+  );
+};
@@ -0,0 +1,29 @@
+/**
+ * Adds a quick & convenient implementation of the Euclidean algorithm, as
+ * `Math.gcd`. Both the browser and the command-line interface import this
+ * before anything else.
+ *
+ * @packageDocumentation
+ * @module GCD
+ */
+
+/** @internal */
+declare global {
+  interface Math {
+    gcd(a: number, b: number): number;
+  }
+}
+
+if (!Math.gcd) {
+  Math.gcd = function (a: number, b: number): number {
+    let t: number;
+    while (b !== 0) {
+      t = b;
+      b = a % b;
+      a = t;
+    }
+    return a;
+  };
+}
+
+export {};
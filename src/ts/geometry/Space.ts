@@ -191,3 +191,44 @@ export const sameSlope = function (
   // Global.epsilon.
   return (s + Math.PI + Global.epsilon) % Math.PI < 2 * Global.epsilon;
 };
+
+/**
+ * Applies the Gram–Schmidt process to a set of vectors. Vectors that are
+ * "approximately" linear combinations of the previous ones are skipped.
+ *
+ * @param vectors The vectors to orthonormalize.
+ * @param epsilon The length under which a vector is considered to be zero.
+ * @returns An orthonormal basis of the span of the vectors.
+ */
+export const orthonormalBasis = function (
+  vectors: Point[],
+  epsilon = 1e-9
+): Point[] {
+  const basis: Point[] = [];
+
+  for (let i = 0; i < vectors.length; i++) {
+    const v = reject(vectors[i], basis);
+    const norm = v.magnitude();
+
+    if (norm > epsilon) basis.push(v.scale(1 / norm));
+  }
+
+  return basis;
+};
+
+/**
+ * Calculates the component of a vector perpendicular to the span of an
+ * orthonormal basis.
+ *
+ * @param v The vector to project.
+ * @param basis An orthonormal set of vectors.
+ * @returns The vector minus its projection onto the span of the basis.
+ */
+export const reject = function (v: Point, basis: Point[]): Point {
+  let res = v;
+
+  for (let i = 0; i < basis.length; i++)
+    res = res.subtract(basis[i].scale(res.dot(basis[i])));
+
+  return res;
+};
@@ -1,34 +1,21 @@
+import "./gcd";
 import { Language, setLanguage } from "./Translation/Language";
 import Point from "./geometry/Point";
 import Scene from "./rendering/Scene";
 import * as Library from "./files/Library";
 import { OFFOptions, saveAsOFF } from "./files/OFF";
 import { GGBOptions, saveAsGGB } from "./files/GGB";
+import { MeshOptions } from "./files/Mesh";
+import { saveAsOBJ } from "./files/OBJ";
+import { saveAsPLY } from "./files/PLY";
+import { saveAsSTL, STLOptions } from "./files/STL";
 import { PolytopeB } from "./polytopes/types";
 import * as Build from "./polytopes/classes/Build";
 import * as Product from "./polytopes/classes/Product";
 import CD from "./Data structures/CD";
 import Render from "./rendering/Render";
-
-/** @internal */
-declare global {
-  interface Math {
-    gcd(a: number, b: number): number;
-  }
-}
-
-// Adds a quick & convenient implementation of the Euclidean algorithm.
-if (!Math.gcd) {
-  Math.gcd = function (a: number, b: number): number {
-    let t: number;
-    while (b !== 0) {
-      t = b;
-      b = a % b;
-      a = t;
-    }
-    return a;
-  };
-}
+import { ProjectionType } from "./rendering/Projection";
+import { analyze, AnalysisOptions, report } from "./polytopes/analysis";
 
 // Configure OFF import button.
 (document.getElementById("file-input") as HTMLElement).addEventListener(
@@ -58,6 +45,38 @@ PolytopeB.prototype["saveAsGGB"] = function (options: GGBOptions): void {
   saveAsGGB(this, options);
 };
 
+// Declared in OBJ.ts, STL.ts and PLY.ts. The polytope is projected as in the
+// main scene by default.
+const meshOptions = function <T extends MeshOptions>(options: T): T {
+  return Object.assign(
+    {
+      projection: globalThis.mainScene.projection,
+      rotation: globalThis.mainScene.rotation,
+    },
+    options
+  );
+};
+
+PolytopeB.prototype["saveAsOBJ"] = function (options: MeshOptions = {}): void {
+  saveAsOBJ(this, meshOptions(options));
+};
+
+PolytopeB.prototype["saveAsSTL"] = function (options: STLOptions = {}): void {
+  saveAsSTL(this, meshOptions(options));
+};
+
+PolytopeB.prototype["saveAsPLY"] = function (options: MeshOptions = {}): void {
+  saveAsPLY(this, meshOptions(options));
+};
+
+// Declared in analysis.ts.
+PolytopeB.prototype["info"] = function (
+  options: AnalysisOptions = {}
+): string[] {
+  const P = this.toPolytopeC();
+  return report(P, analyze(P, options));
+};
+
 // Declared in Build.ts.
 PolytopeB.prototype["extrudeToPyramid"] = function (
   apex: Point | number
@@ -85,3 +104,4 @@ globalThis.Build = Build;
 globalThis.CD = CD;
 globalThis.Product = Product;
 globalThis.Library = Library;
+globalThis.ProjectionType = ProjectionType;
@@ -0,0 +1,406 @@
+/**
+ * Contains methods to gather basic information about a polytope, such as its
+ * element counts, its Euler characteristic, the kinds of polygons it has, or
+ * how many flag orbits it has.
+ *
+ * @packageDocumentation
+ * @module Analysis
+ * @category Polytope methods
+ */
+
+import type { PolytopeC } from "./types";
+import { automorphisms, isChiral, schlafliType } from "./automorphisms";
+import { FlagList } from "../Data structures/flags";
+import Point from "../geometry/Point";
+import * as Space from "../geometry/Space";
+import * as Message from "../Translation/Basic/Message";
+import { Language } from "../Translation/Language";
+
+/** A kind of polygon, as found by [[`polygonTypes`]]. */
+export interface PolygonType {
+  /** The number of edges of the polygon. */
+  sides: number;
+
+  /** How many times the polygon winds around its center. Is 1 for convex
+   * polygons and 2 for pentagrams. */
+  turning: number;
+
+  /** The number of faces of this kind. */
+  count: number;
+}
+
+/** Information about a polytope, as returned by [[`analyze`]]. */
+export interface PolytopeInfo {
+  /** The number of elements of each rank, up to the components. */
+  elementCounts: number[];
+
+  /** The alternating sum of the element counts, excluding the components. */
+  eulerCharacteristic: number;
+
+  /** The number of components. */
+  components: number;
+
+  /** Whether each component is orientable. */
+  orientable: boolean[];
+
+  /** The kinds of 2-faces of the polytope, along with how many of each there
+   * are. */
+  polygons: PolygonType[];
+
+  /** The number of automorphisms of the polytope, written in decimal, or
+   * `null` if they couldn't be found. Is `undefined` if they weren't searched
+   * for. See [[`automorphisms`]]. */
+  automorphisms?: string | null;
+
+  /** The number of orbits of the flags under the automorphisms. */
+  flagOrbits?: number;
+
+  /** Whether the polytope is chiral. See [[`isChiral`]]. */
+  chiral?: boolean;
+
+  /** The Schläfli type of the polytope, if it's regular or chiral. See
+   * [[`schlafliType`]]. */
+  schlafli?: number[];
+}
+
+/** The options of [[`analyze`]]. */
+export interface AnalysisOptions {
+  /** Whether to search for the automorphisms of the polytope, which takes
+   * time quadratic in its number of flags. */
+  automorphisms?: boolean;
+}
+
+/**
+ * Counts the elements of each rank of a polytope.
+ *
+ * @param P The polytope to analyze.
+ * @returns The number of elements of each rank, up to the components.
+ */
+export const elementCounts = function (P: PolytopeC): number[] {
+  const res: number[] = [];
+
+  for (let r = 0; r < P.elementList.length; r++)
+    res.push((P.elementList[r] as unknown[]).length);
+
+  return res;
+};
+
+/**
+ * Calculates the Euler characteristic of a polytope, that is, the alternating
+ * sum of its element counts. The components aren't counted, so that convex
+ * polyhedra have an Euler characteristic of 2.
+ *
+ * @param P The polytope to analyze.
+ * @returns The Euler characteristic of the polytope.
+ */
+export const eulerCharacteristic = function (P: PolytopeC): number {
+  let res = 0;
+
+  for (let r = 0; r < P.dimensions; r++)
+    res += (r % 2 ? -1 : 1) * (P.elementList[r] as unknown[]).length;
+
+  return res;
+};
+
+/**
+ * Checks whether each component of a polytope is orientable. A component is
+ * orientable whenever its flags can be split into two classes, such that any
+ * two adjacent flags belong to different classes. Components with some flag
+ * without a unique adjacent flag are considered non-orientable.
+ *
+ * @param P The polytope to analyze.
+ * @returns Whether each component of the polytope is orientable.
+ */
+export const orientability = function (P: PolytopeC): boolean[] {
+  const n = P.dimensions;
+  if (n < 0) return [];
+
+  const components = (P.elementList[n] as unknown[]).length;
+  const res: boolean[] = new Array(components).fill(true);
+  const { flags, adjacencies } = new FlagList(P);
+  const colors: number[] = new Array(flags.length).fill(-1);
+
+  // Colors the flags of each component via a breadth-first search.
+  for (let i = 0; i < flags.length; i++) {
+    if (colors[i] !== -1) continue;
+
+    const component = flags[i][n];
+    const queue = [i];
+    colors[i] = 0;
+
+    for (let j = 0; j < queue.length; j++) {
+      const flag = queue[j];
+
+      for (let r = 0; r < adjacencies[flag].length; r++) {
+        const adj = adjacencies[flag][r];
+
+        if (adj === -1 || colors[adj] === colors[flag]) res[component] = false;
+        else if (colors[adj] === -1) {
+          colors[adj] = 1 - colors[flag];
+          queue.push(adj);
+        }
+      }
+    }
+  }
+
+  return res;
+};
+
+/**
+ * Helper function for [[`polygonTypes`]]. Splits a face into its cycles of
+ * vertices.
+ *
+ * @param P The polytope the face belongs to.
+ * @param i The index of the face.
+ * @returns The cycles of vertex indices of the face.
+ */
+const faceCycles = function (P: PolytopeC, i: number): number[][] {
+  const edges = P.elementList[1] as number[][];
+  const face = (P.elementList[2] as number[][])[i];
+  const neighbors = new Map<number, number[]>();
+
+  for (let j = 0; j < face.length; j++) {
+    const edge = edges[face[j]];
+    for (let k = 0; k < 2; k++) {
+      const list = neighbors.get(edge[k]) || [];
+      list.push(edge[1 - k]);
+      neighbors.set(edge[k], list);
+    }
+  }
+
+  const visited = new Set<number>();
+  const res: number[][] = [];
+
+  neighbors.forEach((_list, start) => {
+    if (visited.has(start)) return;
+
+    const cycle: number[] = [];
+    let prev = -1,
+      cur = start;
+
+    while (!visited.has(cur)) {
+      visited.add(cur);
+      cycle.push(cur);
+
+      const list = neighbors.get(cur) as number[];
+      const next = list[0] === prev ? list[1] : list[0];
+      if (next === undefined) break;
+      prev = cur;
+      cur = next;
+    }
+
+    res.push(cycle);
+  });
+
+  return res;
+};
+
+/**
+ * Helper function for [[`polygonTypes`]]. Calculates how many times a face
+ * winds around the centers of its cycles. Faces are assumed to be planar.
+ *
+ * @param P The polytope the face belongs to.
+ * @param i The index of the face.
+ * @returns The total winding number of the cycles of the face.
+ */
+const turning = function (P: PolytopeC, i: number): number {
+  const vertices = P.elementList[0] as Point[];
+  let res = 0;
+
+  const cycles = faceCycles(P, i);
+  for (let j = 0; j < cycles.length; j++) {
+    const points = cycles[j].map((v) => vertices[v]);
+
+    let center = new Point(P.spaceDimensions);
+    for (let k = 0; k < points.length; k++) center = center.add(points[k]);
+    center = center.scale(1 / points.length);
+
+    const vectors = points.map((p) => p.subtract(center));
+    const basis = Space.orthonormalBasis(vectors);
+    if (basis.length < 2) continue;
+
+    // Adds up the angles between consecutive vertices, as seen from the
+    // center.
+    let angle = 0;
+    for (let k = 0; k < vectors.length; k++) {
+      const a = vectors[k],
+        b = vectors[(k + 1) % vectors.length];
+      const ax = a.dot(basis[0]),
+        ay = a.dot(basis[1]),
+        bx = b.dot(basis[0]),
+        by = b.dot(basis[1]);
+
+      angle += Math.atan2(ax * by - ay * bx, ax * bx + ay * by);
+    }
+
+    res += Math.round(Math.abs(angle) / (2 * Math.PI));
+  }
+
+  return res;
+};
+
+/**
+ * Classifies the 2-faces of a polytope by their number of sides and how many
+ * times they wind around their center. For instance, the faces of a great
+ * dodecahedron are classified as 12 {5}s, and those of a small stellated
+ * dodecahedron as 12 {5/2}s.
+ *
+ * @param P The polytope to analyze.
+ * @returns The kinds of faces of the polytope, sorted by number of sides and
+ * then by turning.
+ */
+export const polygonTypes = function (P: PolytopeC): PolygonType[] {
+  if (P.dimensions < 2) return [];
+
+  const faces = P.elementList[2] as number[][];
+  const types = new Map<string, PolygonType>();
+
+  for (let i = 0; i < faces.length; i++) {
+    const sides = faces[i].length;
+    const t = turning(P, i);
+    const key = sides + "/" + t;
+    const type = types.get(key);
+
+    if (type) type.count++;
+    else types.set(key, { sides: sides, turning: t, count: 1 });
+  }
+
+  return Array.from(types.values()).sort(
+    (a, b) => a.sides - b.sides || a.turning - b.turning
+  );
+};
+
+/**
+ * Gathers all of the information about a polytope this module can calculate.
+ * The automorphisms are only searched for when asked to, since that's much
+ * slower than everything else for polytopes with many flags.
+ *
+ * @param P The polytope to analyze.
+ * @param options The analysis options.
+ * @returns The information about the polytope.
+ */
+export const analyze = function (
+  P: PolytopeC,
+  options: AnalysisOptions = {}
+): PolytopeInfo {
+  const counts = elementCounts(P);
+  const res: PolytopeInfo = {
+    elementCounts: counts,
+    eulerCharacteristic: eulerCharacteristic(P),
+    components: P.dimensions < 0 ? 0 : counts[P.dimensions],
+    orientable: orientability(P),
+    polygons: polygonTypes(P),
+  };
+
+  if (options.automorphisms) {
+    const automorphismInfo = automorphisms(P);
+
+    res.automorphisms = automorphismInfo.order;
+    res.flagOrbits = automorphismInfo.orbitCount;
+    res.chiral = isChiral(automorphismInfo);
+    res.schlafli = schlafliType(automorphismInfo);
+  }
+
+  return res;
+};
+
+/**
+ * Writes the information about a polytope as a list of translated lines of
+ * text, such as `"Vertices: 20"` or `"Pentagrams {5/2}: 12"`.
+ *
+ * @param P The polytope the information refers to.
+ * @param info The information about the polytope. Is calculated if not given.
+ * @returns The lines of text describing the polytope.
+ */
+export const report = function (
+  P: PolytopeC,
+  info: PolytopeInfo = analyze(P)
+): string[] {
+  const res: string[] = [];
+  const n = P.dimensions;
+
+  // Element counts.
+  for (let r = 0; r <= n; r++) {
+    const count = info.elementCounts[r];
+    const options = { count: count, uppercase: true };
+
+    res.push(
+      Message.get("analysis/count", {
+        arg0:
+          r === n
+            ? Message.get("misc/component", options)
+            : Language.element(r, options),
+        arg1: count.toString(),
+      })
+    );
+  }
+
+  res.push(
+    Message.get("analysis/euler", {
+      arg0: info.eulerCharacteristic.toString(),
+    })
+  );
+
+  // Orientability.
+  const orientable = info.orientable.filter((x) => x).length;
+  if (orientable === info.components)
+    res.push(Message.get("analysis/orientable"));
+  else if (!orientable) res.push(Message.get("analysis/nonOrientable"));
+  else {
+    res.push(
+      Message.get("analysis/someOrientable", {
+        arg0: orientable.toString(),
+        arg1: info.components.toString(),
+      })
+    );
+  }
+
+  // Polygon types.
+  for (let i = 0; i < info.polygons.length; i++) {
+    const { sides, turning: t, count } = info.polygons[i];
+
+    res.push(
+      Message.get("analysis/count", {
+        arg0:
+          Language.regularPolygon(sides, t, {
+            count: count,
+            uppercase: true,
+          }) +
+          " {" +
+          sides +
+          (t > 1 ? "/" + t : "") +
+          "}",
+        arg1: count.toString(),
+      })
+    );
+  }
+
+  // Automorphisms, if they were searched for.
+  if (info.automorphisms === undefined) return res;
+  if (info.automorphisms === null) {
+    res.push(Message.get("analysis/noAutomorphisms"));
+    return res;
+  }
+
+  res.push(
+    Message.get("analysis/automorphisms", {
+      arg0: info.automorphisms,
+    })
+  );
+
+  if (info.schlafli) {
+    res.push(
+      Message.get(info.chiral ? "analysis/chiral" : "analysis/regular", {
+        arg0: "{" + info.schlafli.join(",") + "}",
+      })
+    );
+  } else {
+    res.push(
+      Message.get("analysis/orbits", {
+        arg0: (info.flagOrbits as number).toString(),
+      })
+    );
+  }
+
+  return res;
+};
@@ -0,0 +1,866 @@
+/**
+ * Contains methods to find the automorphisms of a polytope, that is, the
+ * permutations of its elements that preserve incidences, regardless of where
+ * its vertices are. Unlike its [[Symmetry|symmetries]], these only depend on
+ * the [[PolytopeC.elementList|`elementList`]] of the polytope.
+ *
+ * @packageDocumentation
+ * @module Automorphisms
+ * @category Polytope methods
+ */
+
+import { FlagList } from "../Data structures/flags";
+import type { PolytopeC } from "./types";
+
+/** The automorphisms of a polytope, as found by [[`automorphisms`]]. */
+export interface AutomorphismInfo {
+  /** The flags of the polytope, along with their adjacencies. */
+  flagList: FlagList;
+
+  /** The number of automorphisms, written in decimal since it can be too
+   * large for a `number`, or `null` if they couldn't be found. */
+  order: string | null;
+
+  /** The flag every automorphism of its component is determined by. */
+  baseFlag: number;
+
+  /** The image of the base flag under each automorphism of its component.
+   * The identity comes first. */
+  images: number[];
+
+  /** The indices of some automorphisms of the component of the base flag
+   * that generate all of the others. */
+  generators: number[];
+
+  /** The ranks of the flag adjacencies leading from the base flag to each
+   * flag of its component. */
+  paths: number[][];
+
+  /** The index of the orbit of each flag under the automorphisms. */
+  orbits: number[];
+
+  /** The number of flag orbits. */
+  orbitCount: number;
+}
+
+/**
+ * Helper function for [[`automorphisms`]]. Describes the elements of a flag
+ * by how many subelements and superelements each of them has, which any
+ * automorphism must preserve.
+ *
+ * @param P The polytope the flag belongs to.
+ * @param superelements The number of superelements of each element.
+ * @param flag The indices of the elements of the flag.
+ * @returns A string that only depends on the flag up to automorphism.
+ */
+const signature = function (
+  P: PolytopeC,
+  superelements: number[][],
+  flag: number[]
+): string {
+  return flag
+    .map(
+      (el, r) =>
+        (r ? (P.elementList[r][el] as number[]).length : 0) +
+        "/" +
+        (superelements[r][el] ?? 0)
+    )
+    .join();
+};
+
+/**
+ * Helper function for [[`automorphisms`]]. Splits the flags of a polytope
+ * into the connected components of their adjacencies.
+ *
+ * @param flagList The flags of the polytope.
+ * @returns The indices of the flags of each component, in increasing order of
+ * their first flag, which comes first.
+ */
+const flagComponents = function (flagList: FlagList): number[][] {
+  const { flags, adjacencies } = flagList;
+  const visited: boolean[] = new Array(flags.length).fill(false);
+  const res: number[][] = [];
+
+  for (let i = 0; i < flags.length; i++) {
+    if (visited[i]) continue;
+
+    visited[i] = true;
+    const queue = [i];
+    for (let j = 0; j < queue.length; j++) {
+      const adjacent = adjacencies[queue[j]];
+
+      for (let r = 0; r < adjacent.length; r++) {
+        const flag = adjacent[r];
+        if (flag === -1 || visited[flag]) continue;
+
+        visited[flag] = true;
+        queue.push(flag);
+      }
+    }
+
+    res.push(queue);
+  }
+
+  return res;
+};
+
+/** The maximum number of times an isomorphism is extended while searching
+ * for the automorphisms of a [[`componentBlocks`|block]] of components, or
+ * for an isomorphism between two of them, before giving up. */
+const MAX_STEPS = 1000000;
+
+/**
+ * An isomorphism between flags that's built step by step, as returned by
+ * [[`isomorphisms`]].
+ */
+interface PartialIsomorphism {
+  /** The image of each flag, or -1 if it hasn't been set. */
+  image: number[];
+
+  /** The preimage of each flag, or -1 if it hasn't been set. */
+  preimage: number[];
+
+  /** The image of each element of each rank, or -1 if it hasn't been set. */
+  elementImages: number[][];
+
+  /** The number of times the isomorphism has been extended. */
+  steps: number;
+
+  /**
+   * Sends a flag to another, along with every flag of its component.
+   *
+   * @param from The flag to send.
+   * @param to Its image.
+   * @returns Whether the new images are consistent with the previous ones.
+   * If they aren't, some of them might have been set anyways.
+   */
+  extend(from: number, to: number): boolean;
+
+  /**
+   * Marks how many images have been set so far.
+   *
+   * @returns The mark to pass to [[`undo`]].
+   */
+  mark(): [number, number];
+
+  /**
+   * Clears the images set since a mark.
+   *
+   * @param mark The mark returned by [[`mark`]].
+   * @returns The flags whose images were cleared, along with their images.
+   */
+  undo(mark: [number, number]): Map<number, number>;
+}
+
+/**
+ * Helper function for [[`automorphisms`]]. Creates an isomorphism between
+ * flags, that's extended by following the flag adjacencies from a flag and
+ * from its image, while checking that the flags sharing an element are sent
+ * to flags sharing an element.
+ *
+ * @param P The polytope the flags belong to.
+ * @param flagList The flags of the polytope.
+ * @returns An isomorphism that doesn't send any flag anywhere yet.
+ */
+const isomorphisms = function (
+  P: PolytopeC,
+  flagList: FlagList
+): PartialIsomorphism {
+  const n = P.dimensions;
+  const { flags, adjacencies } = flagList;
+
+  const superelements: number[][] = [];
+  for (let r = 0; r <= n; r++) {
+    superelements.push([]);
+    if (!r) continue;
+
+    const elements = P.elementList[r] as number[][];
+    for (let i = 0; i < elements.length; i++) {
+      for (let j = 0; j < elements[i].length; j++) {
+        const el = elements[i][j];
+        superelements[r - 1][el] = (superelements[r - 1][el] ?? 0) + 1;
+      }
+    }
+  }
+
+  const signatures = flags.map((flag) => signature(P, superelements, flag));
+
+  // The image of each flag and of each element, and their inverses.
+  const image: number[] = new Array(flags.length).fill(-1);
+  const preimage: number[] = new Array(flags.length).fill(-1);
+  const elementImages: number[][] = [];
+  const elementPreimages: number[][] = [];
+  for (let r = 0; r <= n; r++) {
+    const count = (P.elementList[r] as unknown[]).length;
+    elementImages.push(new Array(count).fill(-1));
+    elementPreimages.push(new Array(count).fill(-1));
+  }
+
+  // The flags and the elements whose images were set, in order. Only these
+  // entries are cleared, so that undoing a small extension is fast.
+  const flagTrail: number[] = [];
+  const elementTrail: [number, number][] = [];
+
+  // Sends a flag to another, without following any adjacencies.
+  const set = function (from: number, to: number): boolean {
+    if (image[from] !== -1 || preimage[to] !== -1) return false;
+
+    image[from] = to;
+    preimage[to] = from;
+    flagTrail.push(from);
+    return true;
+  };
+
+  const res: PartialIsomorphism = {
+    image: image,
+    preimage: preimage,
+    elementImages: elementImages,
+    steps: 0,
+
+    extend: function (from, to) {
+      res.steps++;
+      if (image[from] !== -1) return image[from] === to;
+      if (signatures[from] !== signatures[to] || !set(from, to)) return false;
+
+      // Follows the adjacencies from the flag, along the trail.
+      for (let i = flagTrail.length - 1; i < flagTrail.length; i++) {
+        const flag = flagTrail[i];
+        const F = flags[flag],
+          G = flags[image[flag]];
+
+        for (let r = 0; r <= n; r++) {
+          if (elementImages[r][F[r]] === -1) {
+            if (elementPreimages[r][G[r]] !== -1) return false;
+            elementImages[r][F[r]] = G[r];
+            elementPreimages[r][G[r]] = F[r];
+            elementTrail.push([r, F[r]]);
+          } else if (elementImages[r][F[r]] !== G[r]) return false;
+        }
+
+        for (let r = 0; r < n; r++) {
+          const a = adjacencies[flag][r],
+            b = adjacencies[image[flag]][r];
+
+          if ((a === -1) !== (b === -1)) return false;
+          if (a === -1 || image[a] === b) continue;
+          if (!set(a, b)) return false;
+        }
+      }
+
+      return true;
+    },
+
+    mark: () => [flagTrail.length, elementTrail.length],
+
+    undo: function ([flagMark, elementMark]) {
+      const images = new Map<number, number>();
+
+      while (flagTrail.length > flagMark) {
+        const flag = flagTrail.pop() as number;
+        images.set(flag, image[flag]);
+        preimage[image[flag]] = -1;
+        image[flag] = -1;
+      }
+
+      while (elementTrail.length > elementMark) {
+        const [r, el] = elementTrail.pop() as [number, number];
+        elementPreimages[r][elementImages[r][el]] = -1;
+        elementImages[r][el] = -1;
+      }
+
+      return images;
+    },
+  };
+
+  return res;
+};
+
+/**
+ * Helper function for [[`automorphisms`]]. Looks for an isomorphism between
+ * the components of two flags that sends the first flag to the second.
+ *
+ * @param isomorphism An isomorphism created by [[`isomorphisms`]], which is
+ * left as it was.
+ * @param from The first flag.
+ * @param to The second flag.
+ * @returns The image of each flag of the component of the first flag under
+ * the isomorphism, if there's one.
+ */
+const isomorphismBetween = function (
+  isomorphism: PartialIsomorphism,
+  from: number,
+  to: number
+): Map<number, number> | undefined {
+  const mark = isomorphism.mark();
+  const found = isomorphism.extend(from, to);
+  const res = isomorphism.undo(mark);
+
+  return found ? res : undefined;
+};
+
+/**
+ * Helper function for [[`automorphisms`]]. Finds the automorphisms of a
+ * connected component of flags. Since automorphisms commute with the flag
+ * adjacencies, each of them is determined by the image of the first flag of
+ * the component. Only candidates for this image outside of the group
+ * generated by the automorphisms found so far need to be checked.
+ *
+ * @param flagList The flags of the polytope.
+ * @param component The indices of the flags of the component.
+ * @param isomorphism An isomorphism created by [[`isomorphisms`]].
+ * @returns The images of the first flag under the automorphisms, some
+ * generators of these automorphisms, and the paths from the first flag to
+ * every other.
+ */
+const componentAutomorphisms = function (
+  flagList: FlagList,
+  component: number[],
+  isomorphism: PartialIsomorphism
+): Pick<AutomorphismInfo, "images" | "generators" | "paths"> {
+  const baseFlag = component[0];
+  const res = {
+    images: [baseFlag],
+    generators: [] as number[],
+    paths: flagList.paths(baseFlag),
+  };
+
+  const apply = (automorphism: number, flag: number): number =>
+    flagList.follow(res.images[automorphism], res.paths[flag]);
+
+  // The index of the automorphism sending the base flag to each flag.
+  const automorphismOf = new Map([[baseFlag, 0]]);
+
+  // Closes the automorphisms found so far under composition.
+  const close = function (): void {
+    for (let i = 0; i < res.images.length; i++) {
+      for (let j = 0; j < res.generators.length; j++) {
+        const flag = apply(i, res.images[res.generators[j]]);
+
+        if (!automorphismOf.has(flag)) {
+          automorphismOf.set(flag, res.images.length);
+          res.images.push(flag);
+        }
+      }
+    }
+  };
+
+  for (let i = 0; i < component.length; i++) {
+    const flag = component[i];
+    if (
+      automorphismOf.has(flag) ||
+      !isomorphismBetween(isomorphism, baseFlag, flag)
+    )
+      continue;
+
+    automorphismOf.set(flag, res.images.length);
+    res.generators.push(res.images.length);
+    res.images.push(flag);
+    close();
+  }
+
+  return res;
+};
+
+/**
+ * Helper function for [[`automorphisms`]]. Multiplies a number written in
+ * decimal by another, without losing any digits.
+ *
+ * @param digits The decimal digits of the first number.
+ * @param k The second number, which must be a safe integer when multiplied
+ * by 10.
+ * @returns The decimal digits of the product.
+ */
+const multiply = function (digits: string, k: number): string {
+  let res = "",
+    carry = 0;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const product = Number(digits[i]) * k + carry;
+    res = (product % 10) + res;
+    carry = Math.floor(product / 10);
+  }
+
+  return (carry ? carry.toString() : "") + res;
+};
+
+/**
+ * Helper function for [[`automorphisms`]]. Groups the components of flags
+ * into blocks, so that components sharing an element are in the same block.
+ * The components of a block can't be permuted independently of each other.
+ *
+ * @param flagList The flags of the polytope.
+ * @param components The indices of the flags of each component.
+ * @returns The components of each block, in increasing order of their first
+ * component. Every component of a block but the first shares an element with
+ * a previous one, so that fixing the previous components constrains it.
+ */
+const componentBlocks = function (
+  flagList: FlagList,
+  components: number[][]
+): number[][][] {
+  const { flags } = flagList;
+
+  // The components containing each element of each rank.
+  const containing: number[][][] = [];
+  for (let i = 0; i < components.length; i++) {
+    for (let j = 0; j < components[i].length; j++) {
+      const flag = flags[components[i][j]];
+
+      for (let r = 0; r < flag.length; r++) {
+        containing[r] ??= [];
+        const list = (containing[r][flag[r]] ??= []);
+        if (list[list.length - 1] !== i) list.push(i);
+      }
+    }
+  }
+
+  const visited: boolean[] = new Array(components.length).fill(false);
+  const res: number[][][] = [];
+  for (let i = 0; i < components.length; i++) {
+    if (visited[i]) continue;
+
+    visited[i] = true;
+    const queue = [i];
+    for (let j = 0; j < queue.length; j++) {
+      const component = components[queue[j]];
+
+      for (let k = 0; k < component.length; k++) {
+        const flag = flags[component[k]];
+
+        for (let r = 0; r < flag.length; r++) {
+          const list = containing[r][flag[r]];
+
+          for (let l = 0; l < list.length; l++) {
+            if (visited[list[l]]) continue;
+
+            visited[list[l]] = true;
+            queue.push(list[l]);
+          }
+        }
+      }
+    }
+
+    res.push(queue.map((j) => components[j]));
+  }
+
+  return res;
+};
+
+/**
+ * Helper function for [[`blockAutomorphisms`]] and [[`blockIsomorphism`]].
+ * Extends an isomorphism so that it sends every component without images
+ * among some components to a component without preimages among some others.
+ * Only the flags containing the image of an element can be the images of the
+ * flags containing the element, so the components sharing an element with
+ * one that already has images go first, starting from the one with the
+ * fewest possible images.
+ *
+ * @param isomorphism An isomorphism created by [[`isomorphisms`]].
+ * @param flags The flags of the polytope.
+ * @param from The components to send.
+ * @param to The components to send them to.
+ * @param limit The number of steps of the isomorphism after which to give up.
+ * @returns Whether the isomorphism could be extended, or `null` if it gave
+ * up. If it couldn't, some images might have been set anyways.
+ */
+const extendComponents = function (
+  isomorphism: PartialIsomorphism,
+  flags: number[][],
+  from: number[][],
+  to: number[][],
+  limit: number
+): boolean | null {
+  let source = -1,
+    next: number[] | null = null,
+    candidates: number[] | null = null;
+
+  for (let i = 0; i < from.length; i++) {
+    const component = from[i];
+    if (isomorphism.image[component[0]] !== -1) continue;
+
+    // Finds an element of the component with an image.
+    let flag = -1,
+      rank = -1;
+    for (let j = 0; j < component.length && rank === -1; j++) {
+      flag = component[j];
+      rank = flags[flag].findIndex(
+        (el, r) => isomorphism.elementImages[r][el] !== -1
+      );
+    }
+
+    if (rank === -1) {
+      next ??= component;
+      continue;
+    }
+
+    // Tries every flag containing the image of the element.
+    const element = isomorphism.elementImages[rank][flags[flag][rank]];
+    const images: number[] = [];
+    for (let j = 0; j < to.length; j++) {
+      const other = to[j];
+      if (
+        isomorphism.preimage[other[0]] !== -1 ||
+        other.length !== component.length
+      )
+        continue;
+
+      for (let k = 0; k < other.length; k++) {
+        if (flags[other[k]][rank] !== element) continue;
+        if (isomorphism.steps > limit) return null;
+
+        const mark = isomorphism.mark();
+        if (isomorphism.extend(flag, other[k])) images.push(other[k]);
+        isomorphism.undo(mark);
+      }
+    }
+
+    if (!images.length) return false;
+    if (!candidates || images.length < candidates.length) {
+      source = flag;
+      candidates = images;
+    }
+  }
+
+  // If no component shares an element with one that has images, any flag
+  // can be the image of the first flag of a component.
+  if (!candidates) {
+    if (!next) return true;
+
+    source = next[0];
+    candidates = [];
+    for (let i = 0; i < to.length; i++) {
+      if (isomorphism.preimage[to[i][0]] === -1 && to[i].length === next.length)
+        candidates.push(...to[i]);
+    }
+  }
+
+  for (let i = 0; i < candidates.length; i++) {
+    if (isomorphism.steps > limit) return null;
+
+    const mark = isomorphism.mark();
+    const found =
+      isomorphism.extend(source, candidates[i]) &&
+      extendComponents(isomorphism, flags, from, to, limit);
+    if (found !== false) return found;
+
+    isomorphism.undo(mark);
+  }
+
+  return false;
+};
+
+/**
+ * Helper function for [[`automorphisms`]]. Finds the automorphisms of a
+ * block of components that share elements. For each component, the images of
+ * its first flag under the automorphisms fixing every previous component are
+ * found with [[`extendComponents`]]. The order of the automorphism group is
+ * the product of the number of these images.
+ *
+ * @param isomorphism An isomorphism created by [[`isomorphisms`]], which is
+ * left as it was.
+ * @param flags The flags of the polytope.
+ * @param block The components of the block.
+ * @returns Some automorphisms generating every other, as the image of each
+ * flag of the block, and the factors of the number of automorphisms, or
+ * `null` if they took more than [[`MAX_STEPS`]] steps to be found.
+ */
+const blockAutomorphisms = function (
+  isomorphism: PartialIsomorphism,
+  flags: number[][],
+  block: number[][]
+): { generators: number[][]; factors: number[] } | null {
+  const limit = isomorphism.steps + MAX_STEPS;
+  const generators: number[][] = [];
+  const factors: number[] = [];
+
+  for (let k = block.length - 1; k >= 0; k--) {
+    const base = block[k][0];
+    const start = isomorphism.mark();
+
+    // Fixes every previous component.
+    for (let i = 0; i < k; i++) isomorphism.extend(block[i][0], block[i][0]);
+
+    // The images of the first flag of the component found so far.
+    const orbit = [base];
+    const inOrbit = new Set(orbit);
+    const close = function (): void {
+      for (let i = 0; i < orbit.length; i++) {
+        for (let j = 0; j < generators.length; j++) {
+          const flag = generators[j][orbit[i]];
+
+          if (!inOrbit.has(flag)) {
+            inOrbit.add(flag);
+            orbit.push(flag);
+          }
+        }
+      }
+    };
+
+    for (let i = k; i < block.length; i++) {
+      if (block[i].length !== block[k].length) continue;
+
+      for (let j = 0; j < block[i].length; j++) {
+        const flag = block[i][j];
+        if (inOrbit.has(flag)) continue;
+
+        const mark = isomorphism.mark();
+        const found =
+          isomorphism.extend(base, flag) &&
+          extendComponents(isomorphism, flags, block, block, limit);
+
+        if (found === null) {
+          isomorphism.undo(start);
+          return null;
+        }
+
+        if (found) {
+          generators.push(flags.map((_f, f) => isomorphism.image[f]));
+          inOrbit.add(flag);
+          orbit.push(flag);
+          close();
+        }
+
+        isomorphism.undo(mark);
+      }
+    }
+
+    factors.push(orbit.length);
+    isomorphism.undo(start);
+  }
+
+  return { generators: generators, factors: factors };
+};
+
+/**
+ * Helper function for [[`automorphisms`]]. Looks for an isomorphism between
+ * two blocks of components.
+ *
+ * @param isomorphism An isomorphism created by [[`isomorphisms`]], which is
+ * left as it was.
+ * @param flags The flags of the polytope.
+ * @param from The components of the first block.
+ * @param to The components of the second block.
+ * @returns The image of each flag of the first block under the isomorphism,
+ * `undefined` if there's none, or `null` if it took more than
+ * [[`MAX_STEPS`]] steps to be found.
+ */
+const blockIsomorphism = function (
+  isomorphism: PartialIsomorphism,
+  flags: number[][],
+  from: number[][],
+  to: number[][]
+): Map<number, number> | undefined | null {
+  const limit = isomorphism.steps + MAX_STEPS;
+
+  for (let i = 0; i < to.length; i++) {
+    if (to[i].length !== from[0].length) continue;
+
+    for (let j = 0; j < to[i].length; j++) {
+      const mark = isomorphism.mark();
+      const found =
+        isomorphism.extend(from[0][0], to[i][j]) &&
+        extendComponents(isomorphism, flags, from, to, limit);
+      const images = isomorphism.undo(mark);
+
+      if (found !== false) return found ? images : null;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Finds every automorphism of a polytope. The automorphisms of each connected
+ * component of flags are found separately. The automorphisms of the whole
+ * polytope then consist of automorphisms of each component, followed by a
+ * permutation of the isomorphic components.
+ *
+ * Components that share elements can't be permuted independently, so they're
+ * grouped into [[`componentBlocks`|blocks]], whose automorphisms are found
+ * with [[`blockAutomorphisms`]] instead. The isomorphic blocks can then be
+ * permuted in any way.
+ *
+ * @param P The polytope.
+ * @returns The automorphisms of the polytope, along with its flag orbits.
+ */
+export const automorphisms = function (P: PolytopeC): AutomorphismInfo {
+  const flagList = new FlagList(P);
+  const { flags } = flagList;
+  const blocks = componentBlocks(flagList, flagComponents(flagList));
+  const isomorphism = isomorphisms(P, flagList);
+
+  const res: AutomorphismInfo = {
+    flagList: flagList,
+    order: null,
+    baseFlag: 0,
+    images: [0],
+    generators: [],
+    paths: flagList.paths(0),
+    orbits: flags.map((_f, i) => i),
+    orbitCount: flags.length,
+  };
+
+  // A block of each isomorphism class, along with the factors of the number
+  // of its automorphisms and the number of blocks in the class.
+  const classes: { block: number[][]; factors: number[]; count: number }[] = [];
+
+  const orbits: number[] = new Array(flags.length).fill(-1);
+  let orbitCount = 0;
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+
+    // Sends the flags of blocks isomorphic to a previous one to the orbits of
+    // their images.
+    let found = false;
+    for (let j = 0; j < classes.length && !found; j++) {
+      const other = classes[j].block;
+      if (
+        other.length !== block.length ||
+        other.some((component, k) => component.length !== block[k].length)
+      )
+        continue;
+
+      const images = blockIsomorphism(isomorphism, flags, block, other);
+      if (images === null) return res;
+      if (!images) continue;
+
+      images.forEach((flag, preimage) => {
+        orbits[preimage] = orbits[flag];
+      });
+      classes[j].count++;
+      found = true;
+    }
+
+    if (found) continue;
+
+    // Otherwise, splits the flags of a single component into orbits.
+    if (block.length === 1) {
+      const component = block[0];
+      const info = componentAutomorphisms(flagList, component, isomorphism);
+      if (!i) Object.assign(res, info);
+
+      for (let j = 0; j < component.length; j++) {
+        const flag = component[j];
+        if (orbits[flag] !== -1) continue;
+
+        const path = info.paths[flag];
+        for (let k = 0; k < info.images.length; k++)
+          orbits[flagList.follow(info.images[k], path)] = orbitCount;
+        orbitCount++;
+      }
+
+      classes.push({ block: block, factors: [info.images.length], count: 1 });
+      continue;
+    }
+
+    // Splits the flags of a block of components into the orbits of the
+    // generators of its automorphisms.
+    const info = blockAutomorphisms(isomorphism, flags, block);
+    if (!info) return res;
+
+    for (let j = 0; j < block.length; j++) {
+      for (let k = 0; k < block[j].length; k++) {
+        const orbit = [block[j][k]];
+        if (orbits[orbit[0]] !== -1) continue;
+
+        orbits[orbit[0]] = orbitCount;
+        for (let l = 0; l < orbit.length; l++) {
+          for (let m = 0; m < info.generators.length; m++) {
+            const flag = info.generators[m][orbit[l]];
+            if (orbits[flag] !== -1) continue;
+
+            orbits[flag] = orbitCount;
+            orbit.push(flag);
+          }
+        }
+
+        orbitCount++;
+      }
+    }
+
+    // The automorphisms sending the first component to itself are determined
+    // by the image of its first flag.
+    if (!i) {
+      res.images = block[0].filter((flag) => orbits[flag] === orbits[0]);
+      res.generators = res.images.map((_f, j) => j).slice(1);
+    }
+
+    classes.push({ block: block, factors: info.factors, count: 1 });
+  }
+
+  // The isomorphic blocks can be permuted in any way.
+  let order = "1";
+  for (let i = 0; i < classes.length; i++) {
+    for (let j = 1; j <= classes[i].count; j++) {
+      for (let k = 0; k < classes[i].factors.length; k++)
+        order = multiply(order, classes[i].factors[k]);
+      order = multiply(order, j);
+    }
+  }
+
+  res.order = order;
+  res.orbits = orbits;
+  res.orbitCount = orbitCount;
+  return res;
+};
+
+/**
+ * Checks whether a polytope is chiral, that is, whether it has two flag
+ * orbits, such that adjacent flags always belong to different orbits.
+ *
+ * @param info The automorphisms of the polytope.
+ * @returns Whether the polytope is chiral.
+ */
+export const isChiral = function (info: AutomorphismInfo): boolean {
+  const { adjacencies } = info.flagList;
+  if (info.order === null || info.orbitCount !== 2) return false;
+
+  return adjacencies.every((adjacent, i) =>
+    adjacent.every(
+      (flag) => flag !== -1 && info.orbits[flag] !== info.orbits[i]
+    )
+  );
+};
+
+/**
+ * Calculates the [[https://polytope.miraheze.org/wiki/Schläfli_symbol|Schläfli
+ * type]] of a regular or chiral polytope. Its i-th entry is the number of
+ * (i − 2)-elements and (i + 1)-elements of any section of rank 2, found by
+ * alternately changing the (i − 1)-element and the i-element of the base flag
+ * until it comes back.
+ *
+ * @param info The automorphisms of the polytope.
+ * @returns The Schläfli type of the polytope, or `undefined` if the polytope
+ * is neither regular nor chiral.
+ * @example
+ * // The Schläfli type of a cube.
+ * console.log(schlafliType(automorphisms(hypercube(3)))); // [4, 3]
+ */
+export const schlafliType = function (
+  info: AutomorphismInfo
+): number[] | undefined {
+  const { flags, adjacencies } = info.flagList;
+  if (
+    !flags.length ||
+    info.order === null ||
+    adjacencies[info.baseFlag].includes(-1) ||
+    (info.orbitCount !== 1 && !isChiral(info))
+  )
+    return undefined;
+
+  const res: number[] = [];
+  const n = flags[info.baseFlag].length - 1;
+  for (let i = 1; i < n; i++) {
+    let flag = info.baseFlag,
+      p = 0;
+
+    do {
+      flag = adjacencies[adjacencies[flag][i - 1]][i];
+      p++;
+    } while (flag !== info.baseFlag);
+
+    res.push(p);
+  }
+
+  return res;
+};
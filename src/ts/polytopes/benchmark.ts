@@ -0,0 +1,80 @@
+/**
+ * Contains a benchmark for the conversion of symmetric polytopes into their
+ * combinatorial representation, via [[PolytopeS.toPolytopeC|`toPolytopeC`]].
+ * Run [[`benchmarkToPolytopeC`]] from the console to check that groups the
+ * size of BC(5) and H4 convert in a few seconds at most.
+ *
+ * @packageDocumentation
+ * @module Benchmark
+ * @category Polytope methods
+ */
+
+import { ConcreteGroup, CoxeterGroup } from "../Data structures/groups";
+import { FlagClass } from "../Data structures/flags";
+import { elementCounts } from "./analysis";
+import { cross, hypercube } from "./classes/Build";
+import { generatingPoint } from "./classes/Wythoff";
+import { PolytopeB, PolytopeS } from "./types";
+
+/** The time taken to convert a polytope, as measured by
+ * [[`benchmarkToPolytopeC`]]. */
+export interface BenchmarkResult {
+  /** The name of the polytope. */
+  name: string;
+
+  /** The number of elements of each rank of the converted polytope. */
+  elementCounts: number[];
+
+  /** The time taken by the conversion, in milliseconds. */
+  time: number;
+}
+
+/**
+ * Helper function for [[`benchmarkToPolytopeC`]]. Builds a regular polytope
+ * with H4 symmetry.
+ *
+ * @param dual Whether to build the hexacosichoron rather than the
+ * hecatonicosachoron.
+ * @returns The polytope.
+ */
+const h4Polytope = function (dual: boolean): PolytopeS<number[]> {
+  const symmetries = ConcreteGroup.H(4);
+  const normals = (symmetries.abstractGroup as CoxeterGroup).normals;
+
+  const flagClass = new FlagClass();
+  for (let i = 0; i < 4; i++) flagClass.push(0, [dual ? 3 - i : i]);
+
+  const values = dual ? [0, 0, 0, 1] : [1, 0, 0, 0];
+  return new PolytopeS(
+    symmetries,
+    [flagClass],
+    [generatingPoint(normals, values)],
+    4
+  );
+};
+
+/**
+ * Converts a few polytopes with large symmetry groups into their combinatorial
+ * representation, and measures the time each conversion takes.
+ *
+ * @returns The element counts and the time taken for each polytope.
+ */
+export const benchmarkToPolytopeC = function (): BenchmarkResult[] {
+  const polytopes: [string, PolytopeB][] = [
+    ["penteract", hypercube(5)],
+    ["pentacross", cross(5)],
+    ["hecatonicosachoron", h4Polytope(false)],
+    ["hexacosichoron", h4Polytope(true)],
+  ];
+
+  return polytopes.map(([name, P]) => {
+    const start = Date.now();
+    const counts = elementCounts(P.toPolytopeC());
+
+    return {
+      name: name,
+      elementCounts: counts,
+      time: Date.now() - start,
+    };
+  });
+};
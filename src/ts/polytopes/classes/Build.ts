@@ -19,9 +19,10 @@ import {
   Cross as CNCross,
 } from "../../Data structures/Construction/Node";
 import { FlagClass } from "../../Data structures/flags";
-import { ConcreteGroup } from "../../Data structures/groups";
+import { ConcreteGroup, CoxeterGroup } from "../../Data structures/groups";
 import Point from "../../geometry/Point";
 import { ElementList, PolytopeB, PolytopeC, PolytopeS } from "../types";
+import { generatingPoint } from "./Wythoff";
 
 /**
  * Simple auxiliary function to get the length of a regular polygon's verf.
@@ -124,11 +125,11 @@ export const regularPolygon = function (n: number, d?: number): PolytopeB {
     const components: number[] = [];
     // j is the edge.
     for (let j = 0; j < n_gcd; j++) {
+      components.push(els[1].length); // Components
       els[1].push([x, y]); // Edges
       x = y;
       y += d;
       if (y >= n) y -= n;
-      components.push(components.length); // Components
     }
     els[2].push(components);
     x++;
@@ -302,10 +303,12 @@ export const simplex = function (n: number): PolytopeB {
   const flagClass = new FlagClass();
   for (let i = 0; i < n; i++) flagClass.push(0, [i]);
 
-  const coordinates: number[] = [];
-  for (let i = 0; i < n; i++) coordinates.push(1);
+  // The vertex lies on every mirror but the first one.
+  const normals = (symmetries.abstractGroup as CoxeterGroup).normals;
+  const values: number[] = [1];
+  for (let i = 1; i < n; i++) values.push(0);
 
-  const vertices = [new Point(coordinates)];
+  const vertices = [generatingPoint(normals, values)];
   const P = new PolytopeS(symmetries, [flagClass], vertices, n);
 
   P.setConstruction(new CNSimplex(n));
@@ -345,7 +345,7 @@ const _tegum = function (P: PolytopeB, Q: PolytopeB): PolytopeB {
           let elIndx2: number;
           // Same thing for n.
           if (n === 0) elIndx2 = 0;
-          else elIndx2 = Q_.elementList[n][j][k];
+          else elIndx2 = Q_.elementList[n][j][l];
 
           indices.push(
             getIndexOfTegumProduct(
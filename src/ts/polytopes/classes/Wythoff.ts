@@ -0,0 +1,719 @@
+/**
+ * Contains methods to build polytopes from their Coxeter diagrams, via
+ * [[https://polytope.miraheze.org/wiki/Wythoffian_construction|Wythoff's
+ * construction]].
+ *
+ * @packageDocumentation
+ * @module Wythoff
+ * @category Polytope methods
+ */
+
+import type { CDGraph } from "../../Data structures/CD";
+import * as MathJS from "mathjs";
+import Point from "../../geometry/Point";
+import * as Space from "../../geometry/Space";
+import * as Message from "../../Translation/Basic/Message";
+import { ElementList, PolytopeC } from "../types";
+
+/** The maximum number of vertices a Wythoffian polytope can have. Guards
+ * against diagrams whose symmetry groups are infinite. */
+const MAX_VERTICES = 100000;
+
+/** The precision with which vertices are compared. */
+const PRECISION = 1e-7;
+
+/** The maximum number of steps taken to make the edges of an alternated
+ * polytope have unit length. */
+const MAX_SNUB_STEPS = 200;
+
+/**
+ * The orbit of a point under a group generated by reflections, along with how
+ * each generator permutes it.
+ */
+export interface Orbit {
+  /** The points in the orbit. The first one is the original point. */
+  points: Point[];
+
+  /** The index of the image of each point under each generator. */
+  permutations: number[][];
+}
+
+/**
+ * Calculates the unit normals of the mirrors of a Coxeter diagram. These are
+ * the rows of the Cholesky decomposition of half of the Schläfli matrix, so
+ * that the normal of the i-th mirror only has nonzero coordinates up to the
+ * i-th one.
+ *
+ * @param schlaflian The Schläfli matrix of the diagram.
+ * @returns The normals of the mirrors.
+ * @throws Will throw an error if the Schläfli matrix isn't positive definite,
+ * in which case the symmetry group of the diagram isn't finite.
+ */
+export const mirrorNormals = function (schlaflian: number[][]): number[][] {
+  const n = schlaflian.length;
+  const res: number[][] = [];
+
+  for (let i = 0; i < n; i++) {
+    res.push(new Array(n).fill(0));
+
+    for (let j = 0; j <= i; j++) {
+      let sum = schlaflian[i][j] / 2;
+      for (let k = 0; k < j; k++) sum -= res[i][k] * res[j][k];
+
+      if (i === j) {
+        if (sum < PRECISION) Message.error("error/wythoff/infiniteGroup");
+
+        res[i][i] = Math.sqrt(sum);
+      } else res[i][j] = sum / res[j][j];
+    }
+  }
+
+  return res;
+};
+
+/**
+ * Calculates the point whose distances to each mirror are half of the values
+ * of the corresponding nodes, so that each ringed node generates edges with
+ * the length given by its value.
+ *
+ * @param normals The normals of the mirrors, as returned by
+ * [[`mirrorNormals`]].
+ * @param values The values of the nodes.
+ * @returns The generating point.
+ */
+export const generatingPoint = function (
+  normals: number[][],
+  values: number[]
+): Point {
+  const res: number[] = [];
+
+  // Forward substitution, taking advantage of the normals being triangular.
+  for (let i = 0; i < normals.length; i++) {
+    let x = values[i] / 2;
+    for (let j = 0; j < i; j++) x -= normals[i][j] * res[j];
+    res.push(x / normals[i][i]);
+  }
+
+  return new Point(res);
+};
+
+/**
+ * Reflects a point on the hyperplane through the origin with a given normal.
+ *
+ * @param P The point to reflect.
+ * @param normal The unit normal of the hyperplane.
+ * @returns The reflected point.
+ */
+export const reflect = function (P: Point, normal: number[]): Point {
+  let dot = 0;
+  for (let i = 0; i < normal.length; i++) dot += P.coordinates[i] * normal[i];
+
+  return new Point(P.coordinates.map((x, i) => x - 2 * dot * normal[i]));
+};
+
+/**
+ * Helper function for [[`orbit`]]. Gets a string that identifies a point up to
+ * the [[`PRECISION`]].
+ *
+ * @param P The point.
+ * @returns The identifier of the point.
+ */
+const pointKey = function (P: Point): string {
+  return P.coordinates.map((x) => Math.round(x / PRECISION)).join();
+};
+
+/**
+ * Calculates the orbit of a point under the group generated by a set of
+ * reflections.
+ *
+ * @param P The point.
+ * @param normals The unit normals of the mirrors of the reflections.
+ * @returns The orbit of the point.
+ * @throws Will throw an error if the orbit has more than [[`MAX_VERTICES`]]
+ * points, which is usually the case when the group is infinite.
+ */
+export const orbit = function (P: Point, normals: number[][]): Orbit {
+  const points = [P];
+  const permutations: number[][] = normals.map(() => []);
+  const indices = new Map<string, number>([[pointKey(P), 0]]);
+
+  for (let i = 0; i < points.length; i++) {
+    for (let j = 0; j < normals.length; j++) {
+      const Q = reflect(points[i], normals[j]);
+      const key = pointKey(Q);
+      let index = indices.get(key);
+
+      if (index === undefined) {
+        if (points.length >= MAX_VERTICES)
+          Message.error("error/wythoff/tooManyVertices");
+
+        index = points.length;
+        indices.set(key, index);
+        points.push(Q);
+      }
+
+      permutations[j][i] = index;
+    }
+  }
+
+  return { points, permutations };
+};
+
+/**
+ * Helper function for [[`wythoff`]]. Checks whether every connected component
+ * of a subdiagram has some ringed node.
+ *
+ * @param type The indices of the nodes of the subdiagram.
+ * @param linked Whether each pair of nodes is linked.
+ * @param ringed Whether each node is ringed.
+ * @returns Whether the subdiagram corresponds to some kind of element.
+ */
+const isElementType = function (
+  type: number[],
+  linked: boolean[][],
+  ringed: boolean[]
+): boolean {
+  const visited = new Set<number>();
+
+  for (let i = 0; i < type.length; i++) {
+    if (visited.has(type[i])) continue;
+
+    // Explores the component of the node.
+    const component = [type[i]];
+    let hasRing = false;
+    visited.add(type[i]);
+
+    for (let j = 0; j < component.length; j++) {
+      const node = component[j];
+      if (ringed[node]) hasRing = true;
+
+      for (let k = 0; k < type.length; k++) {
+        if (!visited.has(type[k]) && linked[node][type[k]]) {
+          visited.add(type[k]);
+          component.push(type[k]);
+        }
+      }
+    }
+
+    if (!hasRing) return false;
+  }
+
+  return true;
+};
+
+/**
+ * Helper function for [[`wythoff`]]. Calculates the orbit of an element under
+ * a subgroup generated by some of the generators.
+ *
+ * @param start The index of the element.
+ * @param actions How each generator permutes the elements.
+ * @param generators The indices of the generators of the subgroup.
+ * @returns The indices of the elements in the orbit.
+ */
+const subgroupOrbit = function (
+  start: number,
+  actions: number[][],
+  generators: number[]
+): number[] {
+  const res = [start];
+  const visited = new Set(res);
+
+  for (let i = 0; i < res.length; i++) {
+    for (let j = 0; j < generators.length; j++) {
+      const image = actions[generators[j]][res[i]];
+
+      if (!visited.has(image)) {
+        visited.add(image);
+        res.push(image);
+      }
+    }
+  }
+
+  return res;
+};
+
+/**
+ * Helper function for [[`wythoff`]] and [[`snub`]]. Finds the nodes in the
+ * connected components of a diagram with some ringed node.
+ *
+ * @param linked Whether each pair of nodes is linked.
+ * @param ringed Whether each node is ringed.
+ * @returns The indices of the nodes, in increasing order.
+ * @throws Will throw an error if the diagram has no ringed nodes.
+ */
+const activeNodes = function (
+  linked: boolean[][],
+  ringed: boolean[]
+): number[] {
+  const n = ringed.length;
+  const active: number[] = [];
+
+  for (let i = 0; i < n; i++) {
+    if (!ringed[i]) continue;
+
+    const component = [i];
+    for (let j = 0; j < component.length; j++)
+      for (let k = 0; k < n; k++)
+        if (linked[component[j]][k] && !component.includes(k))
+          component.push(k);
+
+    for (let j = 0; j < component.length; j++)
+      if (!active.includes(component[j])) active.push(component[j]);
+  }
+
+  if (!active.length) Message.error("error/wythoff/noRingedNodes");
+  return active.sort((a, b) => a - b);
+};
+
+/**
+ * Helper function for [[`wythoff`]] and [[`snub`]]. Builds the elements of a
+ * Wythoffian polytope out of the orbit of its generating vertex.
+ *
+ * @param vertices The orbit of the generating vertex.
+ * @param linked Whether each pair of nodes is linked.
+ * @param ringed Whether each node is ringed.
+ * @returns The element list of the polytope.
+ */
+const wythoffElements = function (
+  vertices: Orbit,
+  linked: boolean[][],
+  ringed: boolean[]
+): ElementList {
+  const d = ringed.length;
+  const elementList: ElementList = [vertices.points];
+
+  // The types of the elements of the previous rank, along with the indices
+  // of their base elements.
+  let types = new Map<string, [number[], number]>([["", [[], 0]]]);
+
+  // How each generator permutes the elements of the previous rank.
+  let actions = vertices.permutations;
+
+  for (let r = 1; r <= d; r++) {
+    const elements: number[][] = [];
+    const newTypes = new Map<string, [number[], number]>();
+    const newActions: number[][] = ringed.map(() => []);
+    const indices = new Map<string, number>();
+
+    // Every type of element of this rank contains a type of element of the
+    // previous rank.
+    types.forEach(([type]) => {
+      for (let i = 0; i < d; i++) {
+        if (type.includes(i)) continue;
+
+        const newType = type.concat([i]).sort((a, b) => a - b);
+        const typeKey = newType.join();
+        if (newTypes.has(typeKey)) continue;
+        if (!isElementType(newType, linked, ringed)) continue;
+
+        // The facets of the base element.
+        let facets: number[] = [];
+        for (let j = 0; j < newType.length; j++) {
+          const subtype = types.get(newType.filter((_x, k) => k !== j).join());
+
+          if (subtype)
+            facets = facets.concat(subgroupOrbit(subtype[1], actions, newType));
+        }
+
+        newTypes.set(typeKey, [newType, elements.length]);
+
+        // Finds every image of the base element.
+        const elementKey = (els: number[]): string =>
+          typeKey +
+          "|" +
+          els
+            .slice()
+            .sort((a, b) => a - b)
+            .join();
+        const start = elements.length;
+        indices.set(elementKey(facets), start);
+        elements.push(facets);
+
+        for (let j = start; j < elements.length; j++) {
+          for (let k = 0; k < d; k++) {
+            const image = elements[j].map((x) => actions[k][x]);
+            const key = elementKey(image);
+            let index = indices.get(key);
+
+            if (index === undefined) {
+              if (elements.length >= MAX_VERTICES)
+                Message.error("error/wythoff/tooManyElements");
+
+              index = elements.length;
+              indices.set(key, index);
+              elements.push(image);
+            }
+
+            newActions[k][j] = index;
+          }
+        }
+      }
+    });
+
+    elementList.push(elements);
+    types = newTypes;
+    actions = newActions;
+  }
+
+  return elementList;
+};
+
+/**
+ * Builds the polytope described by a Coxeter diagram, via Wythoff's
+ * construction. The mirrors are derived from the Schläfli matrix of the
+ * diagram, and the generating vertex is placed so that its distance to each
+ * mirror is half of the value of the corresponding node.
+ *
+ * Each element of the polytope is the image of some base element, whose type
+ * is a subdiagram such that each of its components has a ringed node. The
+ * facets of a base element are the images of the base elements of the types
+ * with one less node, under the subgroup of the type of the element.
+ *
+ * Components of the diagram without ringed nodes don't affect the polytope,
+ * and are ignored.
+ *
+ * @param graph The Coxeter diagram.
+ * @returns The polytope described by the diagram.
+ * @throws Will throw an error if the diagram has no ringed nodes, or if its
+ * symmetry group isn't finite.
+ */
+export const wythoff = function (graph: CDGraph): PolytopeC {
+  const schlaflian = graph.schlaflian().toArray() as number[][];
+  const values = graph.nodes.map((node) => node.parseNode());
+  const linked = schlaflian.map((row, i) =>
+    row.map((x, j) => i !== j && Math.abs(x) > PRECISION)
+  );
+
+  // Only the nodes in components with some ringed node matter.
+  const ringed = values.map((x) => x !== 0);
+  const active = activeNodes(linked, ringed);
+  const normals = mirrorNormals(
+    active.map((i) => active.map((j) => schlaflian[i][j]))
+  );
+  const vertices = orbit(
+    generatingPoint(
+      normals,
+      active.map((i) => values[i])
+    ),
+    normals
+  );
+
+  return new PolytopeC(
+    wythoffElements(
+      vertices,
+      active.map((i) => active.map((j) => linked[i][j])),
+      active.map((i) => ringed[i])
+    )
+  );
+};
+
+/**
+ * Helper function for [[`snub`]]. Calculates the dimension of the affine span
+ * of a set of points.
+ *
+ * @param points The points.
+ * @returns The dimension of their affine span.
+ */
+const affineDimension = function (points: Point[]): number {
+  return Space.orthonormalBasis(
+    points.map((P) => P.subtract(points[0])),
+    PRECISION
+  ).length;
+};
+
+/**
+ * Helper function for [[`snub`]]. Builds the elements of a polytope out of the
+ * vertex sets of its facets. The elements of each rank are the intersections
+ * of pairs of elements of the next rank whose affine spans have the right
+ * dimension, which gives every element whenever the polytope is convex.
+ *
+ * @param points The vertices of the polytope.
+ * @param facets The indices of the vertices of each facet.
+ * @returns The element list of the polytope, with a single component.
+ * @throws Will throw an error if some edge doesn't have two vertices.
+ */
+const faceLattice = function (
+  points: Point[],
+  facets: number[][]
+): ElementList {
+  const n = affineDimension(points);
+
+  // The vertex sets of the elements of each rank, along with the indices of
+  // their facets.
+  const vertexSets: number[][][] = [];
+  const subelements: number[][][] = [];
+  vertexSets[n - 1] = facets;
+
+  for (let r = n - 1; r > 1; r--) {
+    const elements = vertexSets[r];
+    const newElements: number[][] = [];
+    const indices = new Map<string, number>();
+    const subs: Set<number>[] = elements.map(() => new Set<number>());
+
+    const incidences: number[][] = points.map(() => []);
+    for (let i = 0; i < elements.length; i++)
+      for (let j = 0; j < elements[i].length; j++)
+        incidences[elements[i][j]].push(i);
+
+    for (let i = 0; i < elements.length; i++) {
+      // Counts the vertices every other element shares with this one.
+      const shared = new Map<number, number>();
+      for (let j = 0; j < elements[i].length; j++) {
+        const list = incidences[elements[i][j]];
+        for (let k = 0; k < list.length; k++)
+          if (list[k] > i) shared.set(list[k], (shared.get(list[k]) || 0) + 1);
+      }
+
+      shared.forEach((count, j) => {
+        if (count < r) return;
+
+        const other = new Set(elements[j]);
+        const intersection = elements[i].filter((v) => other.has(v));
+        if (affineDimension(intersection.map((v) => points[v])) !== r - 1)
+          return;
+
+        const key = intersection.join();
+        let index = indices.get(key);
+        if (index === undefined) {
+          index = newElements.length;
+          indices.set(key, index);
+          newElements.push(intersection);
+        }
+
+        subs[i].add(index);
+        subs[j].add(index);
+      });
+    }
+
+    vertexSets[r - 1] = newElements;
+    subelements[r] = subs.map((set) => Array.from(set));
+  }
+
+  const elementList: ElementList = [points];
+  const edges = vertexSets[1];
+  for (let i = 0; i < edges.length; i++)
+    if (edges[i].length !== 2) Message.error("error/wythoff/degenerate");
+
+  elementList.push(edges);
+  for (let r = 2; r < n; r++) elementList.push(subelements[r]);
+  elementList.push([facets.map((_f, i) => i)]);
+
+  return elementList;
+};
+
+/**
+ * Builds the alternated polytope described by a Coxeter diagram with snub
+ * nodes, such as `s3s4s` or `s3s3s4o`. Snub nodes are written `s`, and
+ * holosnub nodes `ß` or `β`. Both are alternated in the same way, and every
+ * other node must be unringed.
+ *
+ * The diagram with its snub nodes ringed is built via Wythoff's construction,
+ * and every other vertex of it is removed, so that the remaining vertices form
+ * an orbit under the subgroup of the words with an even number of reflections
+ * on snub mirrors. The facets of the alternated polytope are the alternated
+ * facets of the original one, along with the sets of neighbors of each removed
+ * vertex, whenever these aren't degenerate. Finally, the distances of the
+ * generating vertex to the mirrors are adjusted via the Levenberg–Marquardt
+ * algorithm, so that every edge has unit length.
+ *
+ * @param graph The Coxeter diagram.
+ * @returns The alternated polytope described by the diagram.
+ * @throws Will throw an error if the diagram has ringed nodes other than snub
+ * nodes, if a snub node is linked to an unringed node by an odd label, if the
+ * alternated polytope is degenerate, or if its edges can't be made to have
+ * unit length.
+ */
+export const snub = function (graph: CDGraph): PolytopeC {
+  const schlaflian = graph.schlaflian().toArray() as number[][];
+  const nodes = graph.nodes;
+  const snubbed = nodes.map((node) => node.isSnub());
+  const linked = schlaflian.map((row, i) =>
+    row.map((x, j) => i !== j && Math.abs(x) > PRECISION)
+  );
+
+  for (let i = 0; i < nodes.length; i++)
+    if (!snubbed[i] && nodes[i].parseNode() !== 0)
+      Message.error("error/wythoff/invalidAlternation");
+
+  // Removing every other vertex only makes sense when reflections on snub
+  // mirrors can't be written via reflections on the other ones.
+  for (let i = 0; i < nodes.length; i++) {
+    if (!snubbed[i]) continue;
+
+    for (let j = 0; j < nodes[i].neighbors.length; j++) {
+      if (
+        !nodes[i].neighbors[j].isSnub() &&
+        parseInt(nodes[i].labels[j]) % 2 === 1
+      )
+        Message.error("error/wythoff/notAlternable");
+    }
+  }
+
+  const active = activeNodes(linked, snubbed);
+  const d = active.length;
+  const normals = mirrorNormals(
+    active.map((i) => active.map((j) => schlaflian[i][j]))
+  );
+  const activeSnubbed = active.map((i) => snubbed[i]);
+  const vertices = orbit(
+    generatingPoint(
+      normals,
+      activeSnubbed.map((s) => (s ? 1 : 0))
+    ),
+    normals
+  );
+  const { points, permutations } = vertices;
+  const original = wythoffElements(
+    vertices,
+    active.map((i) => active.map((j) => linked[i][j])),
+    activeSnubbed
+  );
+
+  // Finds the parity of each vertex, along with the vertex and generator it
+  // was first found from.
+  const parity: number[] = [0];
+  const parent: number[] = [-1];
+  const generator: number[] = [-1];
+  for (let i = 0; i < points.length; i++) {
+    for (let j = 0; j < d; j++) {
+      const image = permutations[j][i];
+      const p = parity[i] ^ (activeSnubbed[j] ? 1 : 0);
+
+      if (parity[image] === undefined) {
+        parity[image] = p;
+        parent[image] = i;
+        generator[image] = j;
+      } else if (parity[image] !== p)
+        Message.error("error/wythoff/notAlternable");
+    }
+  }
+
+  const kept: number[] = [];
+  const indices: number[] = [];
+  for (let i = 0; i < points.length; i++) {
+    if (parity[i]) continue;
+    indices[i] = kept.length;
+    kept.push(i);
+  }
+
+  // The candidates for facets, as sets of original vertices.
+  let vertexSets = points.map((_P, i) => [i]);
+  for (let r = 1; r < d; r++) {
+    vertexSets = (original[r] as number[][]).map((el) => {
+      const set = new Set<number>();
+      for (let i = 0; i < el.length; i++)
+        for (let j = 0; j < vertexSets[el[i]].length; j++)
+          set.add(vertexSets[el[i]][j]);
+
+      return Array.from(set);
+    });
+  }
+
+  const candidates = vertexSets.map((set) => set.filter((v) => !parity[v]));
+  const neighbors: number[][] = points.map(() => []);
+  const edges = original[1] as number[][];
+  for (let i = 0; i < edges.length; i++) {
+    const [a, b] = edges[i];
+    if (parity[a]) neighbors[a].push(b);
+    else neighbors[b].push(a);
+  }
+  for (let i = 0; i < points.length; i++)
+    if (parity[i]) candidates.push(neighbors[i]);
+
+  const facets: number[][] = [];
+  const facetKeys = new Set<string>();
+  for (let i = 0; i < candidates.length; i++) {
+    const facet = candidates[i].map((v) => indices[v]).sort((a, b) => a - b);
+    const key = facet.join();
+
+    if (
+      facetKeys.has(key) ||
+      affineDimension(facet.map((v) => points[kept[v]])) !== d - 1
+    )
+      continue;
+
+    facetKeys.add(key);
+    facets.push(facet);
+  }
+
+  if (d < 2 || affineDimension(kept.map((v) => points[v])) !== d)
+    Message.error("error/wythoff/degenerate");
+
+  const elementList = faceLattice(
+    kept.map((v) => points[v]),
+    facets
+  );
+
+  // Calculates the vertices given the values of the snub nodes.
+  const params = active.map((_i, j) => j).filter((j) => activeSnubbed[j]);
+  const snubEdges = elementList[1] as number[][];
+  const place = function (x: number[]): Point[] {
+    const values: number[] = new Array(d).fill(0);
+    for (let i = 0; i < params.length; i++) values[params[i]] = x[i];
+
+    const res = [generatingPoint(normals, values)];
+    for (let i = 1; i < points.length; i++)
+      res.push(reflect(res[parent[i]], normals[generator[i]]));
+
+    return res;
+  };
+  const residuals = function (x: number[]): number[] {
+    const placed = place(x);
+    return snubEdges.map(
+      ([a, b]) => Space.distanceSq(placed[kept[a]], placed[kept[b]]) - 1
+    );
+  };
+  const error = (r: number[]): number => r.reduce((s, y) => s + y * y, 0);
+
+  let x: number[] = params.map(() => 1);
+  let res = residuals(x);
+  let lambda = 1e-3;
+
+  for (let step = 0; step < MAX_SNUB_STEPS && error(res) > 1e-24; step++) {
+    // Approximates the Jacobian via finite differences.
+    const jacobian = res.map(() => new Array(params.length).fill(0));
+    for (let j = 0; j < params.length; j++) {
+      const h = 1e-7;
+      const shifted = x.slice();
+      shifted[j] += h;
+
+      const res2 = residuals(shifted);
+      for (let i = 0; i < res.length; i++)
+        jacobian[i][j] = (res2[i] - res[i]) / h;
+    }
+
+    const JtJ = params.map((_p, j) =>
+      params.map((_q, k) => jacobian.reduce((s, row) => s + row[j] * row[k], 0))
+    );
+    const Jtr = params.map((_p, j) =>
+      jacobian.reduce((s, row, i) => s + row[j] * res[i], 0)
+    );
+
+    // Takes a damped Gauss–Newton step, increasing the damping until the
+    // error decreases.
+    let improved = false;
+    while (!improved && lambda < 1e12) {
+      const A = JtJ.map((row, j) =>
+        row.map((y, k) => (j === k ? y * (1 + lambda) + 1e-12 : y))
+      );
+      const delta = (MathJS.lusolve(A, Jtr) as number[][]).map((row) => row[0]);
+      const newX = x.map((y, j) => y - delta[j]);
+      const newRes = residuals(newX);
+
+      if (error(newRes) < error(res)) {
+        x = newX;
+        res = newRes;
+        lambda /= 10;
+        improved = true;
+      } else lambda *= 10;
+    }
+
+    if (!improved) break;
+  }
+
+  if (error(res) > PRECISION) Message.error("error/wythoff/unequalEdges");
+
+  const placed = place(x);
+  elementList[0] = kept.map((v) => placed[v]);
+  return new PolytopeC(elementList);
+};
@@ -0,0 +1,474 @@
+/**
+ * Contains methods to find the symmetries of a polytope, and to convert a
+ * [[`PolytopeC`]] into a [[`PolytopeS`]] that takes advantage of them.
+ *
+ * @packageDocumentation
+ * @module Symmetry
+ * @category Polytope methods
+ */
+
+import * as MathJS from "mathjs";
+import { CayleyGroup, ConcreteGroup } from "../Data structures/groups";
+import { FlagClass, FlagList } from "../Data structures/flags";
+import Point from "../geometry/Point";
+import * as Space from "../geometry/Space";
+import * as Message from "../Translation/Basic/Message";
+import { PolytopeC, PolytopeS } from "./types";
+
+/** The precision with which vertices are compared, relative to the
+ * circumradius of the polytope. */
+const PRECISION = 1e-5;
+
+/** The symmetries of a polytope, as found by [[`symmetries`]]. */
+export interface SymmetryInfo {
+  /** The flags of the polytope, along with their adjacencies. */
+  flagList: FlagList;
+
+  /** The flag every symmetry is determined by. */
+  baseFlag: number;
+
+  /** The image of the base flag under each symmetry. The identity comes
+   * first. */
+  images: number[];
+
+  /** The index of the connected component of each flag. */
+  componentOf: number[];
+
+  /** The image of a flag of each component under each symmetry. For the
+   * identity, these are the flags the [[`paths`]] start from, which include
+   * the base flag. */
+  componentImages: number[][];
+
+  /** The matrix of each symmetry, acting on the positions of the vertices
+   * relative to the gravicenter. */
+  matrices: number[][][];
+
+  /** The indices of some symmetries that generate all of the others. */
+  generators: number[];
+
+  /** The ranks of the flag adjacencies leading to each flag from the first
+   * flag of its component. Since symmetries commute with flag adjacencies,
+   * they can be applied to any flag by following its path from the image of
+   * the first flag. */
+  paths: number[][];
+
+  /** The gravicenter of the polytope, which every symmetry fixes. */
+  center: Point;
+
+  /** An orthonormal basis of the space the polytope lives in. The matrices
+   * are written in terms of it. */
+  basis: number[][];
+}
+
+/**
+ * Helper function for [[`symmetries`]]. Multiplies two matrices.
+ *
+ * @param A The left matrix.
+ * @param B The right matrix.
+ * @returns The product of both matrices.
+ */
+const multiply = function (A: number[][], B: number[][]): number[][] {
+  return A.map((row) =>
+    B[0].map((_x, j) => row.reduce((s, y, k) => s + y * B[k][j], 0))
+  );
+};
+
+/**
+ * Applies a symmetry to a flag.
+ *
+ * @param info The symmetries of the polytope.
+ * @param symmetry The index of the symmetry.
+ * @param flag The index of the flag.
+ * @returns The index of the image of the flag.
+ */
+export const applySymmetry = function (
+  info: SymmetryInfo,
+  symmetry: number,
+  flag: number
+): number {
+  if (!symmetry) return flag;
+
+  return info.flagList.follow(
+    info.componentImages[symmetry][info.componentOf[flag]],
+    info.paths[flag]
+  );
+};
+
+/**
+ * Finds every symmetry of a polytope, that is, every isometry that maps its
+ * vertices to vertices and its elements to elements. Since symmetries commute
+ * with the flag adjacencies, each of them is determined by the image of a
+ * single base flag, and the flags of each rank fix a frame made out of the
+ * centroids of their elements. The candidates for the image of the base flag
+ * are the flags whose frames have the same lengths and angles, and each
+ * candidate is checked by following the flag adjacencies from the base flag
+ * while checking that vertices are mapped correctly. Only candidates outside
+ * of the group generated by the symmetries found so far need to be checked.
+ *
+ * When the flags form several connected components, such as in a compound,
+ * the image of every other component is found from where its vertices are
+ * sent, and checked the same way. This way, isomorphic components can be
+ * swapped.
+ *
+ * @param P The polytope.
+ * @returns The symmetries of the polytope.
+ * @throws Will throw an error if the polytope has rank less than 1.
+ */
+export const symmetries = function (P: PolytopeC): SymmetryInfo {
+  const n = P.dimensions;
+  const vertices = P.elementList[0];
+  if (!vertices || n < 1)
+    throw new Error("Polytopes of rank less than 1 have no symmetries!");
+
+  const center = P.gravicenter();
+  const flagList = new FlagList(P);
+  const { flags, adjacencies } = flagList;
+  const flagCount = flags.length;
+
+  const scale = Math.max(1, ...vertices.map((v) => Space.distance(v, center)));
+  const epsilon = PRECISION * scale;
+
+  // Works in an orthonormal basis of the space the polytope lives in.
+  const basis = Space.orthonormalBasis(
+    vertices.map((v) => v.subtract(center)),
+    epsilon
+  );
+  const m = basis.length;
+  const coordinates = function (v: Point): number[] {
+    const w = v.subtract(center);
+    return basis.map((b) => w.dot(b));
+  };
+
+  // The centroids of the elements of each rank, and the frame of each flag.
+  const centroids: number[][][] = [];
+  for (let r = 0; r < n; r++) {
+    centroids.push(
+      P.elementVertices(r).map((els) => {
+        let sum = new Point(P.spaceDimensions);
+        for (let i = 0; i < els.length; i++) sum = sum.add(vertices[els[i]]);
+        return coordinates(sum.scale(1 / els.length));
+      })
+    );
+  }
+
+  const frame = (flag: number): number[][] =>
+    flags[flag].slice(0, n).map((el, r) => centroids[r][el]);
+  const gram = (vectors: number[][]): number[] =>
+    vectors.reduce(
+      (res: number[], u) =>
+        res.concat(vectors.map((v) => u.reduce((s, x, i) => s + x * v[i], 0))),
+      []
+    );
+
+  // Chooses a base flag whose frame spans the whole space.
+  let baseFlag = 0,
+    independent: number[] = [];
+  for (let i = 0; i < flagCount && independent.length < m; i++) {
+    const vectors = frame(i).map((v) => new Point(v));
+    const found: Point[] = [];
+    const indices: number[] = [];
+
+    for (let r = 0; r < n; r++) {
+      const v = Space.reject(vectors[r], found);
+      const norm = v.magnitude();
+
+      if (norm > epsilon) {
+        found.push(v.scale(1 / norm));
+        indices.push(r);
+      }
+    }
+
+    if (indices.length === m) {
+      baseFlag = i;
+      independent = indices;
+    }
+  }
+
+  // Splits the flags into connected components, and finds the paths to each
+  // flag from the first flag of its component, or from the base flag.
+  const componentOf: number[] = new Array(flagCount).fill(-1);
+  const bases: number[] = [];
+  const paths: number[][] = [];
+  for (let i = -1; i < flagCount; i++) {
+    const flag = i === -1 ? baseFlag : i;
+    if (!flagCount || componentOf[flag] !== -1) continue;
+
+    flagList.paths(flag).forEach((path, j) => {
+      componentOf[j] = bases.length;
+      paths[j] = path;
+    });
+    bases.push(flag);
+  }
+
+  const identity = basis.map((_b, i) =>
+    basis.map((_c, j) => (i === j ? 1 : 0))
+  );
+  const res: SymmetryInfo = {
+    flagList: flagList,
+    baseFlag: baseFlag,
+    images: [baseFlag],
+    componentOf: componentOf,
+    componentImages: [bases],
+    matrices: [identity],
+    generators: [],
+    paths: paths,
+    center: center,
+    basis: basis.map((b) => b.coordinates),
+  };
+
+  if (!m || independent.length < m || !flagCount) return res;
+
+  const baseFrame = frame(baseFlag);
+  const baseGram = gram(baseFrame);
+  const inverse = MathJS.inv(
+    MathJS.transpose(independent.map((r) => baseFrame[r])) as number[][]
+  ) as number[][];
+
+  // The image of each flag under the current candidate, and its inverse.
+  const image: number[] = new Array(flagCount).fill(-1);
+  const preimage: number[] = new Array(flagCount).fill(-1);
+  const vertexCoordinates = flags.map((flag) => centroids[0][flag[0]]);
+
+  // The flags through each vertex.
+  const vertexFlags: number[][] = centroids[0].map(() => []);
+  for (let i = 0; i < flagCount; i++) vertexFlags[flags[i][0]].push(i);
+
+  const transform = (Q: number[][], v: number[]): number[] =>
+    Q.map((row) => row.reduce((s, x, k) => s + x * v[k], 0));
+  const close = (v: number[], w: number[]): boolean =>
+    v.every((x, j) => Math.abs(x - w[j]) <= epsilon);
+
+  // Sends a flag to another under a candidate, and follows the flag
+  // adjacencies from both, returning whether the vertices are mapped
+  // correctly.
+  const follow = function (from: number, to: number, Q: number[][]): boolean {
+    if (preimage[to] !== -1) return false;
+    image[from] = to;
+    preimage[to] = from;
+
+    const queue = [from];
+    for (let i = 0; i < queue.length; i++) {
+      const flag = queue[i];
+      if (
+        !close(
+          transform(Q, vertexCoordinates[flag]),
+          vertexCoordinates[image[flag]]
+        )
+      )
+        return false;
+
+      for (let r = 0; r < n; r++) {
+        const a = adjacencies[flag][r],
+          b = adjacencies[image[flag]][r];
+
+        if ((a === -1) !== (b === -1)) return false;
+        if (a === -1) continue;
+
+        if (image[a] === -1) {
+          if (preimage[b] !== -1) return false;
+          image[a] = b;
+          preimage[b] = a;
+          queue.push(a);
+        } else if (image[a] !== b) return false;
+      }
+    }
+
+    return true;
+  };
+
+  // Checks whether a candidate is a symmetry, returning the image of the
+  // first flag of each component if it is.
+  const check = function (candidate: number, Q: number[][]): number[] | null {
+    image.fill(-1);
+    preimage.fill(-1);
+    if (!follow(baseFlag, candidate, Q)) return null;
+
+    const images = bases.map((flag) => image[flag]);
+    for (let i = 0; i < bases.length; i++) {
+      if (images[i] !== -1) continue;
+
+      // Looks for the flag whose elements are where those of the first flag
+      // of the component are sent.
+      const flagFrame = frame(bases[i]).map((v) => transform(Q, v));
+      const vertex = centroids[0].findIndex((v) => close(v, flagFrame[0]));
+      if (vertex === -1) return null;
+
+      const flag = vertexFlags[vertex].find(
+        (j) =>
+          preimage[j] === -1 && frame(j).every((v, r) => close(v, flagFrame[r]))
+      );
+      if (flag === undefined || !follow(bases[i], flag, Q)) return null;
+      images[i] = flag;
+    }
+
+    return images;
+  };
+
+  // The index of the symmetry sending the base flag to each flag.
+  const symmetryOf = new Map([[baseFlag, 0]]);
+
+  // Closes the symmetries found so far under composition.
+  const closeGroup = function (): void {
+    for (let i = 0; i < res.images.length; i++) {
+      for (let j = 0; j < res.generators.length; j++) {
+        const gen = res.generators[j];
+        const flag = applySymmetry(res, i, res.images[gen]);
+
+        if (!symmetryOf.has(flag)) {
+          symmetryOf.set(flag, res.images.length);
+          res.images.push(flag);
+          res.componentImages.push(
+            res.componentImages[gen].map((f) => applySymmetry(res, i, f))
+          );
+          res.matrices.push(multiply(res.matrices[i], res.matrices[gen]));
+        }
+      }
+    }
+  };
+
+  // Tries the adjacent flags of the base flag first, so that the generators
+  // are reflections whenever possible.
+  const candidates = adjacencies[baseFlag].concat(flags.map((_f, i) => i));
+  for (let i = 0; i < candidates.length; i++) {
+    const candidate = candidates[i];
+    if (candidate === -1 || symmetryOf.has(candidate)) continue;
+
+    const candidateFrame = frame(candidate);
+    const candidateGram = gram(candidateFrame);
+    if (
+      candidateGram.some((x, j) => Math.abs(x - baseGram[j]) > epsilon * scale)
+    )
+      continue;
+
+    // The linear map sending the base frame to the frame of the candidate.
+    const Q = multiply(
+      MathJS.transpose(independent.map((r) => candidateFrame[r])) as number[][],
+      inverse
+    );
+
+    const images = check(candidate, Q);
+    if (images) {
+      symmetryOf.set(candidate, res.images.length);
+      res.generators.push(res.images.length);
+      res.images.push(candidate);
+      res.componentImages.push(images);
+      res.matrices.push(Q);
+      closeGroup();
+    }
+  }
+
+  return res;
+};
+
+/**
+ * Converts a polytope into a [[`PolytopeS`]], by finding its
+ * [[`symmetries`]]. The flag classes are the orbits of the flags under the
+ * symmetries, and the generating vertices are the vertices of the
+ * representatives of each orbit.
+ *
+ * @param P The polytope to convert.
+ * @returns The polytope in its symmetric representation.
+ * @throws Will throw an error if the polytope has rank less than 1, if some
+ * flag doesn't have an adjacent flag for every rank, if some flag is fixed by
+ * a symmetry other than the identity, or if the polytope can't be rebuilt
+ * from the result, as when distinct vertices of different components
+ * coincide.
+ */
+export const toPolytopeS = function (P: PolytopeC): PolytopeS<number> {
+  const n = P.dimensions;
+  const info = symmetries(P);
+  const { flagList, images, matrices, center, basis } = info;
+  const { flags, adjacencies } = flagList;
+  const vertices = P.elementList[0] as Point[];
+
+  for (let i = 0; i < flags.length; i++)
+    if (adjacencies[i].includes(-1))
+      Message.error("error/symmetry/noAdjacentFlag");
+
+  const symmetryOf = new Map<number, number>();
+  for (let i = 0; i < images.length; i++) symmetryOf.set(images[i], i);
+  const apply = (symmetry: number, flag: number): number =>
+    applySymmetry(info, symmetry, flag);
+
+  // The trivial group still needs a generator.
+  const generators = info.generators.length ? info.generators : [0];
+  const table = generators.map((gen) =>
+    images.map((_f, i) => symmetryOf.get(apply(i, images[gen])) as number)
+  );
+  const group = new CayleyGroup(table);
+
+  // Extends the matrices to the whole space.
+  const d = P.spaceDimensions;
+  const ambientMatrices = generators.map((gen) => {
+    const Q = matrices[gen];
+    const res: number[][] = [];
+
+    for (let i = 0; i < d; i++) {
+      res.push([]);
+
+      for (let j = 0; j < d; j++) {
+        let x = i === j ? 1 : 0;
+        for (let k = 0; k < basis.length; k++) {
+          x -= basis[k][i] * basis[k][j];
+          for (let l = 0; l < basis.length; l++)
+            x += basis[k][i] * Q[k][l] * basis[l][j];
+        }
+
+        res[i].push(x);
+      }
+    }
+
+    return MathJS.matrix(res);
+  });
+
+  // Splits the flags into orbits.
+  const classOf: number[] = new Array(flags.length).fill(-1);
+  const domainOf: number[] = new Array(flags.length).fill(-1);
+  const representatives: number[] = [];
+
+  for (let i = 0; i < flags.length; i++) {
+    if (classOf[i] !== -1) continue;
+
+    for (let j = 0; j < images.length; j++) {
+      const flag = apply(j, i);
+
+      // Two symmetries sending a flag to the same one can't both be words of
+      // the flag classes.
+      if (classOf[flag] !== -1) Message.error("error/symmetry/notFree");
+      classOf[flag] = representatives.length;
+      domainOf[flag] = j;
+    }
+
+    representatives.push(i);
+  }
+
+  const flagClasses = representatives.map((flag) => {
+    const flagClass = new FlagClass();
+
+    for (let r = 0; r < n; r++) {
+      const adjacent = adjacencies[flag][r];
+      flagClass.push(classOf[adjacent], group.wordOf(domainOf[adjacent]));
+    }
+
+    return flagClass;
+  });
+
+  const res = new PolytopeS(
+    new ConcreteGroup(ambientMatrices, group),
+    flagClasses,
+    representatives.map((flag) => vertices[flags[flag][0]].subtract(center)),
+    n
+  );
+
+  res.center = center;
+  res.construction = P.construction;
+
+  // Converting back drops the vertices in no flag, and welds the coincident
+  // vertices of different components, so it only gives back the same
+  // polytope if there were none of the former and the latter were shared.
+  const elementList = res.toPolytopeC().elementList;
+  if (elementList.some((els, r) => els.length !== P.elementList[r].length))
+    Message.error("error/symmetry/notFaithful");
+
+  return res;
+};
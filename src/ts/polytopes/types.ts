@@ -1,17 +1,27 @@
 import type ConstructionNode from "../Data structures/Construction/base";
 import {
+  Element as CNElement,
   Name as CNName,
   Plain as CNPlain,
+  VertexFigure as CNVertexFigure,
 } from "../Data structures/Construction/Node";
 import LinkedListNode from "../Data structures/LinkedListNode";
 import Point from "../geometry/Point";
 import * as Space from "../geometry/Space";
 import type { ConcreteGroup } from "../Data structures/groups";
-import Flag, { FlagClass, FlagMap } from "../Data structures/flags";
+import Flag, { FlagClass } from "../Data structures/flags";
+import { validate, ValidationProblem } from "./validate";
+import { analyze, AnalysisOptions, PolytopeInfo } from "./analysis";
+import { toPolytopeS } from "./symmetry";
+import type { OFFData } from "../files/OFF";
 
 /** Stores the elements of a [[`PolytopeC`]], by order of dimension. */
 export type ElementList = [Point[], ...number[][][]] | [];
 
+/** The distance within which the vertices of different components of a
+ * [[`PolytopeS`]] are identified, relative to its circumradius. */
+const WELD_TOLERANCE = 1e-6;
+
 /** Stores the type of any given [[`PolytopeB`]]. */
 export enum PolytopeType {
   /** The object is a [[`PolytopeC`]]. */
@@ -82,6 +92,15 @@ export class PolytopeC extends PolytopeB {
   readonly type: PolytopeType = PolytopeType.C;
   elementList: ElementList;
 
+  /** The comments and colors read from an OFF file, which are written back
+   * when the polytope is [[saveAsOFF|saved as one]]. */
+  offData?: OFFData;
+
+  /** The distance up to which the positions of the vertices are known, if
+   * they were read from a file that stores them with less precision, such as
+   * a binary STL file. */
+  tolerance?: number;
+
   /**
    * The constructor for the PolytopeC class.
    *
@@ -120,7 +139,7 @@ export class PolytopeC extends PolytopeB {
   scale(r: number): PolytopeC {
     if (!this.elementList[0]) return this;
     for (let i = 0; i < this.elementList[0].length; i++) {
-      this.elementList[0][i].scale(r);
+      this.elementList[0][i] = this.elementList[0][i].scale(r);
     }
     return this;
   }
@@ -147,20 +166,37 @@ export class PolytopeC extends PolytopeB {
     return new Point(res);
   }
 
+  /**
+   * Calculates the circumradius of the polytope, as the greatest distance
+   * from its gravicenter to its vertices. This agrees with
+   * [[PolytopeS.circumradius|the circumradius of a `PolytopeS`]], and doesn't
+   * change when the polytope is moved.
+   *
+   * @returns The circumradius of the polytope.
+   */
   circumradius(): number {
-    const els = this.toPolytopeC().elementList;
-    return els[0] ? els[0][0].magnitude() : 0;
+    const vertices = this.elementList[0];
+    if (!vertices) return 0;
+
+    const center = this.gravicenter();
+    let res = 0;
+
+    for (let i = 0; i < vertices.length; i++)
+      res = Math.max(res, Space.distance(vertices[i], center));
+
+    return res;
   }
 
   /**
-   * Calculates the circumcenter of the polytope.
+   * Calculates the circumcenter of the polytope. Distances are compared up
+   * to the [[`tolerance`]] of the polytope, if it has one.
    *
    * @returns Either the circumcenter of the polytope, or null if it doesn't
    * exist.
    */
   circumcenter(): Point | null {
     const vertices = this.elementList[0];
-    const epsilon = 1e-9;
+    const epsilon = this.tolerance ?? 1e-9;
 
     // If this is the nullitope, return null.
     if (vertices === undefined) return null;
@@ -175,12 +211,11 @@ export class PolytopeC extends PolytopeB {
 
     // The circumcenter of the points that we've checked as of yet.
     let O = new Point(this.spaceDimensions);
-    console.log("O: ", O);
+
     // Keeps track of the vectors array and of O, adding one point at a time.
     for (let i = 1; i < vertices.length; i++) {
       // The next point, translated by P.
       const Q = vertices[i].subtract(P);
-      console.log("Q: ", Q);
 
       // Calculates the projection of Q onto the hyperplane in which all of the
       // points we've added lie.
@@ -192,13 +227,10 @@ export class PolytopeC extends PolytopeB {
       if (v.magnitude() > epsilon) {
         // v is perpendicular to the previous vectors, by construction.
         vectors.push(v);
-        console.log("v: ", v);
 
         // Calculates the new circumcenter.
         const k = (Space.distanceSq(O, Q) - O.sqMagnitude()) / (2 * Q.dot(v));
-        console.log("k: ", k);
         O = O.add(v.scale(k));
-        console.log("O: ", O);
       }
 
       // If Q lies in the hyperplane of the previous points, check that the
@@ -216,7 +248,7 @@ export class PolytopeC extends PolytopeB {
     const Q = P.scale(mult);
 
     for (let i = 0; i < this.elementList[0].length; i++) {
-      this.elementList[0][i].add(Q);
+      this.elementList[0][i] = this.elementList[0][i].add(Q);
     }
 
     return this;
@@ -283,6 +315,291 @@ export class PolytopeC extends PolytopeB {
     ].getCycle();
   }
 
+  /**
+   * Gets the vertices of every element of a given rank.
+   *
+   * @param rank The rank of the elements.
+   * @returns An array with the sorted indices of the vertices of each element.
+   */
+  elementVertices(rank: number): number[][] {
+    const vertices = this.elementList[0];
+    if (!vertices || rank > this.dimensions)
+      throw RangeError("The polytope does not have elements of that rank!");
+
+    let res: number[][] = vertices.map((_v, i) => [i]);
+
+    for (let r = 1; r <= rank; r++) {
+      const elements = this.elementList[r] as number[][];
+      const prev = res;
+
+      res = elements.map((el) => {
+        const set = new Set<number>();
+        for (let j = 0; j < el.length; j++)
+          for (let k = 0; k < prev[el[j]].length; k++) set.add(prev[el[j]][k]);
+
+        return Array.from(set).sort((a, b) => a - b);
+      });
+    }
+
+    return res;
+  }
+
+  /**
+   * Builds the dual of the polytope, via polar reciprocation about a sphere.
+   * Each facet becomes a vertex, placed at the pole of its hyperplane, and
+   * every other element becomes the element whose incidences are reversed.
+   * The dual is built in the affine span of the polytope.
+   *
+   * @param center The center of the sphere. Defaults to the gravicenter.
+   * @param radius The radius of the sphere.
+   * @returns The dual polytope.
+   * @throws Will throw an error if the hyperplane of some facet passes through
+   * the center of the sphere, or if some facet is degenerate.
+   */
+  dual(center?: Point, radius = 1): PolytopeC {
+    const vertices = this.elementList[0];
+    const n = this.dimensions;
+    if (!vertices || n < 1)
+      throw new Error("Polytopes of rank less than 1 don't have duals!");
+
+    const c = center || this.gravicenter();
+    const epsilon = 1e-9;
+
+    // An orthonormal basis of the space the polytope lives in.
+    const hullBasis = Space.orthonormalBasis(
+      vertices.map((v) => v.subtract(vertices[0]))
+    );
+
+    // Calculates the dual vertices.
+    const facetVertices = this.elementVertices(n - 1);
+    const dualVertices: Point[] = [];
+
+    for (let i = 0; i < facetVertices.length; i++) {
+      const v0 = vertices[facetVertices[i][0]];
+      const facetBasis = Space.orthonormalBasis(
+        facetVertices[i].map((j) => vertices[j].subtract(v0))
+      );
+
+      if (facetBasis.length !== n - 1)
+        throw new Error(`Facet ${i} doesn't span a hyperplane!`);
+
+      // The unit normal of the facet, within the polytope's span.
+      let normal = new Point(this.spaceDimensions);
+      for (let j = 0; j < hullBasis.length; j++) {
+        const v = Space.reject(hullBasis[j], facetBasis);
+        if (v.magnitude() > normal.magnitude()) normal = v;
+      }
+      normal = normal.scale(1 / normal.magnitude());
+
+      // The (signed) distance from the center to the hyperplane.
+      const h = normal.dot(v0.subtract(c));
+      if (Math.abs(h) < epsilon) {
+        throw new Error(
+          `The hyperplane of facet ${i} passes through the center of ` +
+            "reciprocation!"
+        );
+      }
+
+      // If the polytope doesn't have full rank, the center could be outside of
+      // its span, so we make sure the dual stays within it.
+      const offset = Space.reject(c.subtract(v0), hullBasis);
+      dualVertices.push(
+        c.subtract(offset).add(normal.scale((radius * radius) / h))
+      );
+    }
+
+    // Every element gets reversed: the elements incident to an element of rank
+    // r become the subelements of the dual element of rank n - 1 - r.
+    const dualElementList: ElementList = [dualVertices];
+
+    for (let k = 1; k < n; k++) {
+      const elements = this.elementList[n - k] as number[][];
+      const dualElements: number[][] = [];
+
+      for (
+        let i = 0;
+        i < (this.elementList[n - 1 - k] as unknown[]).length;
+        i++
+      )
+        dualElements.push([]);
+
+      for (let i = 0; i < elements.length; i++)
+        for (let j = 0; j < elements[i].length; j++)
+          dualElements[elements[i][j]].push(i);
+
+      dualElementList.push(dualElements);
+    }
+
+    // Each component of the dual has the vertices of the original component as
+    // its facets.
+    dualElementList.push(this.elementVertices(n));
+
+    return new PolytopeC(dualElementList);
+  }
+
+  /**
+   * Extracts an element of the polytope as a polytope of its own.
+   *
+   * @param rank The rank of the element.
+   * @param i The index of the element.
+   * @returns A new polytope with the element's subelements, reindexed.
+   * @throws Will throw an error if the element doesn't exist.
+   */
+  element(rank: number, i: number): PolytopeC {
+    const vertices = this.elementList[0];
+    if (!vertices || rank > this.dimensions || rank < 0)
+      throw RangeError("The polytope does not have elements of that rank!");
+    if (!(this.elementList[rank] as unknown[])[i])
+      throw RangeError("The polytope does not have that many elements!");
+
+    // The indices of the subelements of each rank, in increasing order.
+    const indices: number[][] = [[i]];
+    for (let r = rank; r > 0; r--) {
+      const elements = this.elementList[r] as number[][];
+      const set = new Set<number>();
+
+      for (let j = 0; j < indices[0].length; j++) {
+        const el = elements[indices[0][j]];
+        for (let k = 0; k < el.length; k++) set.add(el[k]);
+      }
+
+      indices.unshift(Array.from(set).sort((a, b) => a - b));
+    }
+
+    const newElementList: ElementList = [
+      indices[0].map((j) => vertices[j].clone()),
+    ];
+
+    for (let r = 1; r <= rank; r++) {
+      const elements = this.elementList[r] as number[][];
+      const newIndices: number[] = [];
+      for (let j = 0; j < indices[r - 1].length; j++)
+        newIndices[indices[r - 1][j]] = j;
+
+      newElementList.push(
+        indices[r].map((j) => elements[j].map((k) => newIndices[k]))
+      );
+    }
+
+    return new PolytopeC(
+      newElementList,
+      new CNElement([this.construction, rank])
+    );
+  }
+
+  /**
+   * Extracts a facet of the polytope as a polytope of its own.
+   *
+   * @param i The index of the facet.
+   * @returns A new polytope with the facet's subelements, reindexed.
+   */
+  facet(i: number): PolytopeC {
+    return this.element(this.dimensions - 1, i);
+  }
+
+  /**
+   * Builds the vertex figure of the polytope at a given vertex. Its vertices
+   * lie on the edges through the vertex, and each of its elements comes from
+   * an element of one rank higher through the vertex.
+   *
+   * @param i The index of the vertex.
+   * @param edgeLength The distance from the vertex at which the vertices of the
+   * vertex figure are placed along each edge. If it isn't specified, the other
+   * endpoints of the edges are used.
+   * @returns The vertex figure.
+   * @throws Will throw an error if the vertex doesn't exist, or if the
+   * polytope's rank is less than 1.
+   */
+  vertexFigure(i: number, edgeLength?: number): PolytopeC {
+    const vertices = this.elementList[0];
+    if (!vertices || this.dimensions < 1)
+      throw new Error(
+        "Polytopes of rank less than 1 don't have vertex figures!"
+      );
+
+    const v = vertices[i];
+    if (!v) throw RangeError("The polytope does not have that many vertices!");
+
+    // newIndices[r][j] is the index within the vertex figure of the element j
+    // of rank r + 1 through the vertex.
+    const newIndices: number[][] = [];
+    const edges = this.elementList[1] as number[][];
+    const newVertices: Point[] = [];
+
+    newIndices.push([]);
+    for (let j = 0; j < edges.length; j++) {
+      const edge = edges[j];
+      if (edge[0] !== i && edge[1] !== i) continue;
+
+      const w = vertices[edge[0] === i ? edge[1] : edge[0]];
+      newIndices[0][j] = newVertices.length;
+
+      if (edgeLength === undefined) newVertices.push(w.clone());
+      else {
+        const dir = w.subtract(v);
+        newVertices.push(v.add(dir.scale(edgeLength / dir.magnitude())));
+      }
+    }
+
+    const newElementList: ElementList = [newVertices];
+
+    for (let r = 1; r < this.dimensions; r++) {
+      const elements = this.elementList[r + 1] as number[][];
+      const prevIndices = newIndices[r - 1];
+      const newElements: number[][] = [];
+      newIndices.push([]);
+
+      for (let j = 0; j < elements.length; j++) {
+        const newElement: number[] = [];
+        for (let k = 0; k < elements[j].length; k++) {
+          const index = prevIndices[elements[j][k]];
+          if (index !== undefined) newElement.push(index);
+        }
+
+        if (!newElement.length) continue;
+        newIndices[r][j] = newElements.length;
+        newElements.push(newElement);
+      }
+
+      newElementList.push(newElements);
+    }
+
+    return new PolytopeC(newElementList, new CNVertexFigure(this.construction));
+  }
+
+  /**
+   * Checks that the element list of the polytope is well formed. See
+   * [[`validate`]] for the full list of checks.
+   *
+   * @param strict Whether to throw an error if there's any problem.
+   * @returns The list of every problem that was found.
+   */
+  validate(strict = false): ValidationProblem[] {
+    return validate(this, strict);
+  }
+
+  /**
+   * Gathers the element counts, Euler characteristic, orientability and face
+   * types of the polytope, and optionally its automorphisms. See
+   * [[`analyze`]].
+   *
+   * @param options The analysis options.
+   * @returns The information about the polytope.
+   */
+  analyze(options: AnalysisOptions = {}): PolytopeInfo {
+    return analyze(this, options);
+  }
+
+  /**
+   * Converts the polytope into a [[`PolytopeS`]], by finding its symmetries.
+   * See [[`toPolytopeS`]].
+   *
+   * @returns The polytope in its symmetric representation.
+   */
+  toPolytopeS(): PolytopeS<number> {
+    return toPolytopeS(this);
+  }
+
   /**
    * Places the gravicenter of the polytope at the origin.
    * @returns The recentered polytope.
@@ -319,11 +636,13 @@ export class PolytopeS<T> extends PolytopeB {
   flagClasses: FlagClass[];
   /** Stores a set of vertices that generates the entire polytope. */
   vertices: Point[];
+  /** The point the polytope is translated by. The symmetries act on the
+   * [[`vertices`]] before they're translated. */
+  center: Point;
   dimensions: number;
   spaceDimensions: number;
   construction: ConstructionNode<unknown>;
   readonly type: PolytopeType;
-  private identitySimplifier: FlagMap<T, Flag<T>>;
 
   constructor(
     symmetries: ConcreteGroup<T>,
@@ -336,34 +655,182 @@ export class PolytopeS<T> extends PolytopeB {
     this.flagClasses = flagClasses;
     this.vertices = vertices;
     this.dimensions = dimensions;
-    this.identitySimplifier = new FlagMap();
     this.spaceDimensions = vertices[0].dimensions();
+    this.center = new Point(this.spaceDimensions);
     this.type = PolytopeType.S;
 
     this.construction = new CNName("temp");
   }
 
+  /**
+   * Projects a point onto the subspace fixed by every symmetry. Since the
+   * symmetries are orthogonal, the vectors moved by some generator are spanned
+   * by the rows of the generator minus the identity, and the projection
+   * removes the components along them.
+   *
+   * @param P The point to project.
+   * @returns The projection of the point onto the fixed subspace.
+   */
+  private fixedProjection(P: Point): Point {
+    const rows: Point[] = [];
+    const generators = this.symmetries.generators;
+
+    for (let i = 0; i < generators.length; i++) {
+      const matrix = generators[i].matrix.toArray() as number[][];
+
+      for (let j = 0; j < matrix.length; j++)
+        rows.push(new Point(matrix[j].map((x, k) => x - (j === k ? 1 : 0))));
+    }
+
+    return Space.reject(P, Space.orthonormalBasis(rows));
+  }
+
+  /**
+   * Counts the flags through the vertex of the flag of each class with the
+   * identity domain. These are the flags reached from it by every
+   * element-change operation but the vertex change.
+   *
+   * @returns The number of flags through the vertex of each flag class.
+   */
+  private vertexFlagCounts(): number[] {
+    const res: number[] = [];
+
+    for (let i = 0; i < this.flagClasses.length; i++) {
+      const start = new Flag(i, this.symmetries.identity());
+      const flags = [start];
+      const visited = new Set<string>([start.toString()]);
+
+      for (let j = 0; j < flags.length; j++) {
+        for (let k = 1; k < this.dimensions; k++) {
+          const flag = this.moveFlag(flags[j], k);
+          const key = flag.toString();
+
+          if (!visited.has(key)) {
+            visited.add(key);
+            flags.push(flag);
+          }
+        }
+      }
+
+      res.push(flags.length);
+    }
+
+    return res;
+  }
+
   /**
    * The gravicenter is the gravicenter of the original vertices, weighted by
    * the inverse of the number of domains each vertex appears in, projected onto
    * the intersection of the eigenspaces of the generators with eigenvalues 1.
+   *
+   * @returns The gravicenter of the polytope.
    */
   gravicenter(): Point {
-    throw new Error("PolytopeS.gravicenter is not yet implemented");
+    const counts = this.vertexFlagCounts();
+    let res = new Point(this.spaceDimensions);
+    let total = 0;
+
+    for (let i = 0; i < this.vertices.length; i++) {
+      res = res.add(this.vertices[i].scale(1 / counts[i]));
+      total += 1 / counts[i];
+    }
+
+    return this.fixedProjection(res.scale(1 / total)).add(this.center);
   }
 
-  scale(r: number): PolytopeB {
-    for (let i = 0; i < this.vertices.length; i++) this.vertices[i].scale(r);
+  /**
+   * Scales a polytope up or down.
+   *
+   * @param r The scaling factor.
+   * @returns The scaled polytope.
+   */
+  scale(r: number): PolytopeS<T> {
+    for (let i = 0; i < this.vertices.length; i++)
+      this.vertices[i] = this.vertices[i].scale(r);
+    this.center = this.center.scale(r);
+
     return this;
   }
 
-  move(_P: Point): PolytopeB {
-    _P;
-    throw new Error("PolytopeS move not yet implemented!");
+  /**
+   * Translates a polytope by a multiple of a vector. Only the [[`center`]]
+   * needs to change.
+   *
+   * @param P The vector to translate the polytope by.
+   * @param mult The multiple of the vector to use.
+   * @returns The translated polytope.
+   */
+  move(P: Point, mult: number): PolytopeS<T> {
+    this.center = this.center.add(P.scale(mult));
+    return this;
   }
 
+  /**
+   * Calculates the circumradius of the polytope, as the distance from its
+   * gravicenter to its vertices. Since the symmetries fix the gravicenter,
+   * every vertex in the orbit of a generating vertex is at the same distance
+   * from it. If the orbits are at different distances, the greatest one is
+   * returned.
+   *
+   * @returns The circumradius of the polytope.
+   */
   circumradius(): number {
-    throw new Error("PolytopeS circumradius not yet implemented!");
+    const center = this.gravicenter().subtract(this.center);
+    let res = 0;
+
+    for (let i = 0; i < this.vertices.length; i++)
+      res = Math.max(res, Space.distance(this.vertices[i], center));
+
+    return res;
+  }
+
+  /**
+   * Counts the orbits of the flags under the symmetries, which are the flag
+   * classes. The polytope is regular whenever there's a single one.
+   *
+   * @returns The number of flag orbits.
+   */
+  flagOrbits(): number {
+    return this.flagClasses.length;
+  }
+
+  /**
+   * Counts the orbits of the elements of a given rank under the symmetries.
+   * Flags of two classes have elements of rank r in the same orbit whenever
+   * the classes are connected by element-change operations other than the
+   * r-th one. For instance, the polytope is isogonal whenever there's a
+   * single orbit of rank 0, and isotoxal whenever there's one of rank 1.
+   *
+   * @param rank The rank of the elements.
+   * @returns The number of orbits of elements of that rank.
+   */
+  elementOrbits(rank: number): number {
+    const classCount = this.flagClasses.length;
+    const visited: boolean[] = new Array(classCount).fill(false);
+    let res = 0;
+
+    for (let i = 0; i < classCount; i++) {
+      if (visited[i]) continue;
+
+      res++;
+      visited[i] = true;
+      const queue = [i];
+
+      for (let j = 0; j < queue.length; j++) {
+        const changes = this.flagClasses[queue[j]].elementChanges;
+
+        for (let r = 0; r < changes.length; r++) {
+          const k = changes[r].newClassNumber;
+
+          if (r !== rank && !visited[k]) {
+            visited[k] = true;
+            queue.push(k);
+          }
+        }
+      }
+    }
+
+    return res;
   }
 
   /**
@@ -395,247 +862,247 @@ export class PolytopeS<T> extends PolytopeB {
     return this.compareFlags(flag1, flag2) == 0;
   }
 
-  // Utility function for toPolytopeC.
-  // Modifies a simplifier to use another generator.
-  // Almost identical to the merge function but I don't really care rn.
-  private extendSimplifier(
-    simplifier1: FlagMap<T, Flag<T>>,
-    simplifier2: number
-  ): FlagMap<T, Flag<T>> {
-    return this.modifySimplifier(simplifier1, simplifier2);
-  }
-
-  private mergeSimplifiers(
-    simplifier1: FlagMap<T, Flag<T>>,
-    simplifier2: FlagMap<T, Flag<T>>
-  ): FlagMap<T, Flag<T>> {
-    return this.modifySimplifier(simplifier1, simplifier2);
-  }
-
-  private modifySimplifier(
-    simplifier1: FlagMap<T, Flag<T>>,
-    simplifier2: FlagMap<T, Flag<T>> | number
-  ): FlagMap<T, Flag<T>> {
-    const newSimplifier = simplifier1;
-
-    for (const key in simplifier1.dictionary) {
-      let oldLeftElem = new Flag(0, this.symmetries.identity());
-      let oldRightElem: Flag<T>;
-      let leftElem: Flag<T>;
-      let rightElem: Flag<T>;
-
-      // extend
-      if (typeof simplifier2 == "number") {
-        const generator = simplifier2;
-
-        oldRightElem = this.moveFlag(oldLeftElem, generator);
-        leftElem = this.identitySimplifier.get(key);
-        rightElem = this.moveFlag(leftElem, generator);
-      }
-
-      // merge
-      else {
-        oldRightElem = new Flag(0, this.symmetries.identity());
-        leftElem = simplifier1.get(key);
-        rightElem = simplifier2.get(key);
-      }
-
-      while (!this.equalFlags(oldLeftElem, leftElem)) {
-        oldLeftElem = leftElem;
-        leftElem = newSimplifier.get(leftElem);
-        // console.log("upd left", ""+oldLeftElem, ""+leftElem);
-      }
-
-      while (!this.equalFlags(oldRightElem, rightElem)) {
-        oldRightElem = rightElem;
-        rightElem = newSimplifier.get(rightElem);
-        // console.log("upd right", ""+oldRightElem, ""+rightElem);
-      }
-
-      const order = this.compareFlags(leftElem, rightElem);
-
-      // console.log("order", ""+leftElem, ""+rightElem, order);
-      if (order === 1) newSimplifier.set(leftElem, rightElem);
-      else if (order === -1) newSimplifier.set(rightElem, leftElem);
-    }
-
-    const betterSimplifier = new FlagMap<T, Flag<T>>();
-    for (const key in newSimplifier.dictionary) {
-      let oldElem = new Flag(0, this.symmetries.identity());
-      let elem = newSimplifier.get(key);
-
-      while (!this.equalFlags(oldElem, elem)) {
-        oldElem = elem;
-        elem = newSimplifier.get(elem);
+  /**
+   * Helper method for [[`toPolytopeC`]]. Calculates how each element-change
+   * operation acts on the flags. The flag with class number `k` and whose
+   * domain has index `g` in the Cayley table of the symmetries is indexed as
+   * `g * c + k`, where `c` is the number of flag classes.
+   *
+   * @returns The index of the image of each flag under each operation.
+   */
+  private flagActions(): number[][] {
+    const table = this.symmetries.cayleyTable();
+    const order = table.length ? table[0].length : 1;
+    const classCount = this.flagClasses.length;
+    const res: number[][] = [];
+
+    for (let r = 0; r < this.dimensions; r++) {
+      const action: number[] = [];
+
+      for (let g = 0; g < order; g++) {
+        for (let k = 0; k < classCount; k++) {
+          const change = this.flagClasses[k].elementChanges[r];
+          let domain = g;
+          for (let i = 0; i < change.generators.length; i++)
+            domain = table[change.generators[i]][domain];
+
+          action.push(domain * classCount + change.newClassNumber);
+        }
       }
 
-      betterSimplifier.set(key, elem);
+      res.push(action);
     }
 
-    return betterSimplifier;
+    return res;
   }
 
   /**
-   * Counts a simplifier's cosets. Not needed except for debugging.
+   * Converts the polytope into a [[`PolytopeC`]]. Two flags share their
+   * element of rank r whenever they're connected by element-change operations
+   * other than the r-th one, so the elements of each rank are found as the
+   * classes of a union–find structure over the flags. The vertices are the
+   * images of the generating vertices under the domains of the flags with the
+   * least class number through them. The components of compounds are then
+   * [[`weld`]]ed together.
    *
-   * @param simplifier The simplifier to perform the count.
-   * @returns The number of cosets of the simplifier.
+   * @returns The polytope in its combinatorial representation.
    */
-  simplifierCosets(simplifier: FlagMap<T, Flag<T>>): number {
-    let count = 0;
-
-    for (const key in simplifier.dictionary) {
-      if (key == simplifier.get(key).toString()) count++;
-    }
-
-    return count;
-  }
-
-  // This is basically the algorithm from the Grünbaumian thing,
-  // but modified to work for higher dimensions and calculate incidences.
   toPolytopeC(): PolytopeC {
-    const domains = this.symmetries.enumerateElements();
-
-    // Maps each flag to itself. Used as a base for the later simplifiers.
-    this.identitySimplifier = new FlagMap<T, Flag<T>>();
-    for (let i = 0; i < domains.length; i++) {
-      for (let j = 0; j < this.flagClasses.length; j++) {
-        const flag = new Flag(j, domains[i]);
-        this.identitySimplifier.set(flag, flag);
-      }
-    }
-
-    // Maps each flag to a representative flag of its subwhatever
-    // generated by the first n change vertex/face/etc operations.
-    const ascendingSimplifiers = [this.identitySimplifier];
-    let lastSimplifier = this.identitySimplifier;
-
-    console.log("Ascending simplifiers");
-
-    for (let i = 0; i < this.dimensions; i++) {
-      console.log(lastSimplifier, this.simplifierCosets(lastSimplifier));
-      lastSimplifier = this.extendSimplifier(lastSimplifier, i);
-
-      ascendingSimplifiers.push(lastSimplifier);
-    }
-
-    // Maps each flag to a representative flag of its subwhatever
-    // generated by the first n change facet/ridge/etc operations.
-    const descendingSimplifiers = [this.identitySimplifier];
-    console.log("Descending simplifiers");
+    const n = this.dimensions;
+    const classCount = this.flagClasses.length;
+    const actions = this.flagActions();
+    const flagCount = this.symmetries.cayleyTable()[0].length * classCount;
+
+    // The index of the element of each rank of each flag.
+    const elementIndices: number[][] = [];
+    const elementCounts: number[] = [];
+
+    // The flag with the least class number through each vertex.
+    const vertexFlags: number[] = [];
+
+    for (let r = 0; r <= n; r++) {
+      const parent: number[] = [];
+      for (let i = 0; i < flagCount; i++) parent.push(i);
+
+      const find = function (i: number): number {
+        while (parent[i] !== i) {
+          parent[i] = parent[parent[i]];
+          i = parent[i];
+        }
 
-    for (let i = 0; i < this.dimensions; i++) {
-      lastSimplifier = descendingSimplifiers[descendingSimplifiers.length - 1];
+        return i;
+      };
 
-      console.log(lastSimplifier, this.simplifierCosets(lastSimplifier));
+      for (let k = 0; k < n; k++) {
+        if (k === r) continue;
 
-      descendingSimplifiers.push(
-        this.extendSimplifier(lastSimplifier, this.dimensions - (i + 1))
-      );
-    }
+        const action = actions[k];
+        for (let i = 0; i < flagCount; i++) {
+          const a = find(i),
+            b = find(action[i]);
 
-    // Maps each flag to a representative flag of the subwhatever
-    // fixing that flag's vertex/edge/etc.
-    const elementSimplifiers: FlagMap<T, Flag<T>>[] = [];
-    console.log("Element simplifiers");
+          if (a < b) parent[b] = a;
+          else if (b < a) parent[a] = b;
+        }
+      }
 
-    for (let i = 0; i < this.dimensions; i++) {
-      const simplifier = this.mergeSimplifiers(
-        ascendingSimplifiers[i],
-        descendingSimplifiers[this.dimensions - (i + 1)]
-      );
+      // Numbers the classes in order of their least flag.
+      const indices: number[] = [];
+      let count = 0;
+
+      for (let i = 0; i < flagCount; i++) {
+        const root = find(i);
+        if (root === i) indices[i] = count++;
+        indices[i] = indices[root];
+
+        if (r === 0) {
+          const vertexFlag = vertexFlags[indices[i]];
+          if (
+            vertexFlag === undefined ||
+            i % classCount < vertexFlag % classCount
+          )
+            vertexFlags[indices[i]] = i;
+        }
+      }
 
-      console.log(simplifier, this.simplifierCosets(simplifier));
-      elementSimplifiers.push(simplifier);
+      elementIndices.push(indices);
+      elementCounts.push(count);
     }
 
-    elementSimplifiers.push(ascendingSimplifiers[this.dimensions]);
-
-    // Maps each flag to a representative flag of the subwhatever
-    // fixing that flag's vertex-edge/edge-face/etc pair.
-    const intersectionSimplifiers: FlagMap<T, Flag<T>>[] = [];
-    console.log("Intersection simplifiers");
-
-    for (let i = 0; i < this.dimensions - 1; i++) {
-      const simplifier = this.mergeSimplifiers(
-        ascendingSimplifiers[i],
-        descendingSimplifiers[this.dimensions - (i + 2)]
-      );
-
-      console.log(simplifier, this.simplifierCosets(simplifier));
-      intersectionSimplifiers.push(simplifier);
-    }
-    intersectionSimplifiers.push(ascendingSimplifiers[this.dimensions - 1]);
+    // Calculates the vertices.
+    const matrices = this.symmetries.elementMatrices();
+    const vertices = vertexFlags.map((flag) => {
+      const matrix = matrices[Math.floor(flag / classCount)];
+      const vertex = this.vertices[flag % classCount].coordinates;
 
-    // Vertices are inherently different from other elements, so compute them
-    // separately.
-    console.log("Vertices");
-    const vertices: Point[] = [];
+      return new Point(
+        matrix.map((row) => row.reduce((s, x, i) => s + x * vertex[i], 0))
+      ).add(this.center);
+    });
 
-    for (let i = 0; i < domains.length; i++) {
-      for (let j = 0; j < this.flagClasses.length; j++) {
-        const flag = new Flag(j, domains[i]);
+    // Calculates the subelements of every other element.
+    const elementList: ElementList = [vertices];
+    for (let r = 1; r <= n; r++) {
+      const subelements: Set<number>[] = [];
+      for (let i = 0; i < elementCounts[r]; i++)
+        subelements.push(new Set<number>());
 
-        // Skip flags that aren't vertex representatives
-        if (!this.equalFlags(flag, elementSimplifiers[0].get(flag))) continue;
+      for (let i = 0; i < flagCount; i++)
+        subelements[elementIndices[r][i]].add(elementIndices[r - 1][i]);
 
-        const vertex = this.vertices[j].applyMatrix(flag.domain.matrix);
-        vertices.push(vertex);
-      }
+      elementList.push(subelements.map((set) => Array.from(set)));
     }
 
-    console.log(vertices);
-
-    // Map representatives to IDs.
-    const locations: FlagMap<T, number>[] = [];
-    const locationsLengths: number[] = [];
-
-    for (let i = 0; i < this.dimensions + 1; i++) {
-      const locationsRow = new FlagMap<T, number>();
-      let nextID = 0;
+    // The component of each element of each rank.
+    const components: number[][] = elementCounts.map(() => []);
+    for (let r = 0; r <= n; r++)
+      for (let i = 0; i < flagCount; i++)
+        components[r][elementIndices[r][i]] = elementIndices[n][i];
 
-      for (let j = 0; j < domains.length; j++) {
-        for (let k = 0; k < this.flagClasses.length; k++) {
-          const flag = new Flag(k, domains[j]);
-          if (!this.equalFlags(flag, elementSimplifiers[i].get(flag))) continue;
+    return new PolytopeC(this.weld(elementList, components));
+  }
 
-          locationsRow.set(flag, nextID++);
+  /**
+   * Helper method for [[`toPolytopeC`]]. The flags of a compound whose
+   * components share vertices don't reach the shared vertices from every
+   * component, so each component gets its own copy of them. This identifies
+   * the vertices of different components within [[`WELD_TOLERANCE`]] of one
+   * another, and then the elements of different components with the same
+   * subelements. Elements of the same component, like the edges of a dihedron,
+   * are never identified.
+   *
+   * @param elementList The elements of each component, in order of rank.
+   * @param components The component of each element of each rank.
+   * @returns The elements of the compound.
+   */
+  private weld(elementList: ElementList, components: number[][]): ElementList {
+    const n = elementList.length - 1;
+    if (n < 1 || elementList[n].length < 2) return elementList;
+
+    const vertices = elementList[0] as Point[];
+    const tolerance =
+      WELD_TOLERANCE *
+      (Math.max(...this.vertices.map((v) => v.magnitude())) || 1);
+
+    // The index each element is identified with, along with the components
+    // of the identified elements.
+    let indices: number[] = [];
+    const sets: Set<number>[] = [];
+
+    // Sweeps the vertices by their first coordinate, so that only nearby
+    // vertices are compared.
+    const order = vertices.map((_v, i) => i);
+    order.sort(
+      (i, j) => vertices[i].coordinates[0] - vertices[j].coordinates[0]
+    );
+
+    for (let a = 0; a < order.length; a++) {
+      const i = order[a];
+      if (indices[i] !== undefined) continue;
+
+      const set = new Set([components[0][i]]);
+      const x = vertices[i].coordinates[0];
+      indices[i] = sets.length;
+
+      for (let b = a + 1; b < order.length; b++) {
+        const j = order[b];
+        if (vertices[j].coordinates[0] - x > tolerance) break;
+
+        if (
+          indices[j] === undefined &&
+          !set.has(components[0][j]) &&
+          Space.distance(vertices[i], vertices[j]) <= tolerance
+        ) {
+          set.add(components[0][j]);
+          indices[j] = sets.length;
         }
       }
 
-      locations.push(locationsRow);
-      locationsLengths.push(nextID);
+      sets.push(set);
     }
 
-    console.log("Locations");
-    console.log(locations, locationsLengths);
-    console.log("Higher elements");
+    const points: Point[] = [];
+    for (let i = 0; i < vertices.length; i++)
+      if (points[indices[i]] === undefined) points[indices[i]] = vertices[i];
+    const res: ElementList = [points];
 
-    const elementList: ElementList = [vertices];
-    for (let i = 1; i < this.dimensions + 1; i++) {
-      // The array of i-dimensional elements.
+    for (let r = 1; r <= n; r++) {
       const elements: number[][] = [];
-
-      for (let j = 0; j < locationsLengths[i]; j++) elements.push([]);
-
-      for (let j = 0; j < domains.length; j++)
-        for (let k = 0; k < this.flagClasses.length; k++) {
-          const flag = new Flag(k, domains[j]);
-          if (!this.equalFlags(flag, intersectionSimplifiers[i - 1].get(flag)))
-            continue;
-
-          const leftFlag = elementSimplifiers[i - 1].get(flag);
-          const rightFlag = elementSimplifiers[i].get(flag);
-          const leftID = locations[i - 1].get(leftFlag);
-          const rightID = locations[i].get(rightFlag);
-
-          elements[rightID].push(leftID);
+      const newIndices: number[] = [];
+      const newSets: Set<number>[] = [];
+
+      // The elements with each set of subelements.
+      const dictionary = new Map<string, number[]>();
+
+      const els = elementList[r] as number[][];
+      for (let i = 0; i < els.length; i++) {
+        const subelements = Array.from(new Set(els[i].map((j) => indices[j])));
+        const component = components[r][i];
+        const key = subelements
+          .slice()
+          .sort((a, b) => a - b)
+          .join();
+
+        // The components themselves are never identified.
+        const matches = r === n ? [] : dictionary.get(key) || [];
+        const match = matches.find((j) => !newSets[j].has(component));
+
+        if (match === undefined) {
+          newIndices[i] = elements.length;
+          matches.push(elements.length);
+          dictionary.set(key, matches);
+          newSets.push(new Set([component]));
+          elements.push(subelements);
+        } else {
+          newIndices[i] = match;
+          newSets[match].add(component);
         }
+      }
 
-      console.log(elements);
-      elementList.push(elements);
+      res.push(elements);
+      indices = newIndices;
     }
 
-    return new PolytopeC(elementList);
+    return res;
   }
 }
@@ -0,0 +1,212 @@
+/**
+ * Contains methods to check that the element list of a polytope is well
+ * formed.
+ *
+ * @packageDocumentation
+ * @module Validate
+ * @category Polytope methods
+ */
+
+import type { PolytopeC } from "./types";
+import * as Message from "../Translation/Basic/Message";
+import { Language } from "../Translation/Language";
+
+/** The different kinds of problems an element list can have. */
+export enum ProblemType {
+  /** A vertex has the wrong number of coordinates, or non-finite ones. */
+  InvalidVertex,
+
+  /** An element has no subelements. */
+  Empty,
+
+  /** An element references a subelement that doesn't exist. */
+  IndexOutOfRange,
+
+  /** An element lists the same subelement more than once. */
+  RepeatedSubelement,
+
+  /** An edge doesn't have exactly two vertices. */
+  NotDyadic,
+
+  /** A ridge of an element doesn't belong to exactly two of its facets. */
+  Diamond,
+
+  /** An element isn't a subelement of any element of the next rank. */
+  Unused,
+}
+
+/** A problem found by [[`validate`]]. */
+export interface ValidationProblem {
+  /** The kind of problem. */
+  type: ProblemType;
+
+  /** The rank of the element with the problem. */
+  rank: number;
+
+  /** The index of the element with the problem. */
+  index: number;
+
+  /** The index of the offending subelement, if there's one. */
+  subelement?: number;
+
+  /** A translated description of the problem. */
+  message: string;
+}
+
+/** The message codes for each [[`ProblemType`]]. */
+const messageCodes = [
+  "invalidVertex",
+  "empty",
+  "indexOutOfRange",
+  "repeatedSubelement",
+  "notDyadic",
+  "diamond",
+  "unused",
+];
+
+/**
+ * Helper function for [[`validate`]]. Builds a problem along with its message.
+ *
+ * @param P The polytope with the problem.
+ * @param type The kind of problem.
+ * @param rank The rank of the element with the problem.
+ * @param index The index of the element with the problem.
+ * @param subelement The index of the offending subelement, if there's one.
+ * @returns The problem.
+ */
+const problem = function (
+  P: PolytopeC,
+  type: ProblemType,
+  rank: number,
+  index: number,
+  subelement?: number
+): ValidationProblem {
+  const name =
+    rank === P.dimensions
+      ? Message.get("misc/component", { uppercase: true })
+      : Language.element(rank, { uppercase: true });
+
+  return {
+    type: type,
+    rank: rank,
+    index: index,
+    subelement: subelement,
+    message: Message.get("validation/" + messageCodes[type], {
+      arg0: name,
+      arg1: index.toString(),
+      arg2: subelement === undefined ? "" : subelement.toString(),
+    }),
+  };
+};
+
+/**
+ * Checks that the element list of a polytope is well formed. Specifically, it
+ * checks that:
+ *
+ * - Every vertex has as many coordinates as the space the polytope lives in.
+ * - Every subelement index is in range and appears only once per element.
+ * - Every edge has exactly two vertices.
+ * - Every ridge of an element belongs to exactly two of its facets (the
+ * diamond property).
+ * - Every element but the components is a subelement of some other element.
+ *
+ * @param P The polytope to validate.
+ * @param strict Whether to throw an error if there's any problem.
+ * @returns The list of every problem that was found.
+ * @throws Will throw an error listing every problem, in strict mode.
+ */
+export const validate = function (
+  P: PolytopeC,
+  strict = false
+): ValidationProblem[] {
+  const problems: ValidationProblem[] = [];
+  const elementList = P.elementList;
+  const vertices = elementList[0];
+  if (!vertices) return problems;
+
+  // Checks the vertices.
+  for (let i = 0; i < vertices.length; i++) {
+    const coordinates = vertices[i].coordinates;
+
+    if (
+      coordinates.length !== P.spaceDimensions ||
+      !coordinates.every((x) => isFinite(x))
+    )
+      problems.push(problem(P, ProblemType.InvalidVertex, 0, i));
+  }
+
+  // Stores whether each element is a subelement of something else.
+  let used: boolean[] = vertices.map(() => false);
+
+  for (let r = 1; r <= P.dimensions; r++) {
+    const elements = elementList[r] as number[][];
+    const subelementCount = (elementList[r - 1] as unknown[]).length;
+    const newUsed: boolean[] = elements.map(() => false);
+
+    for (let i = 0; i < elements.length; i++) {
+      const el = elements[i];
+      const seen = new Set<number>();
+      let valid = true;
+
+      if (!el.length) problems.push(problem(P, ProblemType.Empty, r, i));
+
+      for (let j = 0; j < el.length; j++) {
+        const sub = el[j];
+
+        if (!Number.isInteger(sub) || sub < 0 || sub >= subelementCount) {
+          problems.push(problem(P, ProblemType.IndexOutOfRange, r, i, sub));
+          valid = false;
+        } else if (seen.has(sub)) {
+          problems.push(problem(P, ProblemType.RepeatedSubelement, r, i, sub));
+          valid = false;
+        } else {
+          seen.add(sub);
+          used[sub] = true;
+        }
+      }
+
+      // Checks dyadicity of edges.
+      if (r === 1) {
+        if (seen.size !== 2)
+          problems.push(problem(P, ProblemType.NotDyadic, r, i));
+        continue;
+      }
+
+      // Checks the diamond property, whenever the facets are valid.
+      if (!valid) continue;
+      const ridges = elementList[r - 1] as number[][];
+      const ridgeCount = (elementList[r - 2] as unknown[]).length;
+      const count = new Map<number, number>();
+
+      for (let j = 0; j < el.length; j++) {
+        const facet = ridges[el[j]];
+        for (let k = 0; k < facet.length; k++) {
+          const ridge = facet[k];
+          if (Number.isInteger(ridge) && ridge >= 0 && ridge < ridgeCount)
+            count.set(ridge, (count.get(ridge) || 0) + 1);
+        }
+      }
+
+      count.forEach((c, ridge) => {
+        if (c !== 2)
+          problems.push(problem(P, ProblemType.Diamond, r, i, ridge));
+      });
+    }
+
+    // Checks that the elements of the previous rank are used.
+    for (let i = 0; i < used.length; i++)
+      if (!used[i]) problems.push(problem(P, ProblemType.Unused, r - 1, i));
+
+    used = newUsed;
+  }
+
+  if (strict && problems.length) {
+    throw new Error(
+      [Message.get("validation/invalid")]
+        .concat(problems.map((p) => p.message))
+        .join("\n")
+    );
+  }
+
+  return problems;
+};
@@ -0,0 +1,176 @@
+import Point from "../geometry/Point";
+
+/** The ways in which a point can be projected one dimension down. */
+export enum ProjectionType {
+  /** Drops the coordinate along the viewing direction. */
+  Orthographic,
+
+  /** Projects from an eye point onto the hyperplane through the center that
+   * is perpendicular to it. */
+  Perspective,
+}
+
+/**
+ * Projects points of any dimension into 3D space, one dimension at a time.
+ * Each step either drops a coordinate (orthographic projection) or projects
+ * from an eye point (perspective projection). Points in less than three
+ * dimensions are simply padded with zeros.
+ *
+ * @category Rendering
+ */
+export default class Projection {
+  /** Whether each step of the projection is orthographic or perspective. */
+  type: ProjectionType;
+
+  /**
+   * The eye points of each projection step, indexed by the number of
+   * dimensions of the space they live in. The eye of every step without an
+   * explicitly set eye lies on the last axis, at a distance of
+   * [[`eyeDistance`]] times [[`radius`]] from the center.
+   */
+  eyes: Point[] = [];
+
+  /** The distance from the center to the default eye points, relative to
+   * [[`radius`]]. */
+  eyeDistance: number;
+
+  /** The point that gets placed at the origin of the 3D space. */
+  center: Point | null = null;
+
+  /** The size of the projected object, usually its circumradius. */
+  radius = 1;
+
+  /**
+   * Constructor for the Projection class.
+   *
+   * @param type The type of each projection step.
+   * @param eyeDistance The distance from the center to the default eye points,
+   * relative to the size of the projected object.
+   */
+  constructor(type = ProjectionType.Perspective, eyeDistance = 2) {
+    this.type = type;
+    this.eyeDistance = eyeDistance;
+  }
+
+  /**
+   * Clones a Projection object, so that it can be fitted to other points
+   * without changing the original.
+   *
+   * @returns A new Projection object with the same settings as `this`.
+   */
+  clone(): Projection {
+    const res = new Projection(this.type, this.eyeDistance);
+    res.eyes = this.eyes.slice();
+    res.center = this.center;
+    res.radius = this.radius;
+
+    return res;
+  }
+
+  /**
+   * Sets the eye point for the projection step from the eye's space. The eye
+   * is given relative to the [[`center`]].
+   *
+   * @param eye The new eye point.
+   * @throws Will throw an error if the eye is placed at the center.
+   */
+  setEye(eye: Point): void {
+    if (eye.magnitude() < 1e-9)
+      throw new Error("The eye can't be placed at the center!");
+
+    this.eyes[eye.dimensions()] = eye;
+  }
+
+  /**
+   * Centers the projection on a set of points, and sets its size as their
+   * maximum distance to their centroid.
+   *
+   * @param vertices The points that will be projected.
+   */
+  fit(vertices: Point[]): void {
+    if (!vertices.length) return;
+
+    const dim = vertices[0].dimensions();
+    let center = new Point(dim);
+
+    for (let i = 0; i < vertices.length; i++) center = center.add(vertices[i]);
+    center = center.scale(1 / vertices.length);
+
+    let radius = 0;
+    for (let i = 0; i < vertices.length; i++)
+      radius = Math.max(radius, vertices[i].subtract(center).magnitude());
+
+    this.center = center;
+    this.radius = radius || 1;
+  }
+
+  /**
+   * Projects a point into 3D space.
+   *
+   * @param P The point to project.
+   * @returns The projected point, with exactly three coordinates.
+   * @throws Will throw an error if a perspective projection step finds the
+   * point at or behind its eye.
+   */
+  project(P: Point): Point {
+    let coordinates = P.coordinates;
+
+    if (this.center && this.center.dimensions() === P.dimensions())
+      coordinates = P.subtract(this.center).coordinates;
+
+    while (coordinates.length > 3) coordinates = this.projectStep(coordinates);
+
+    return Point.padRight(new Point(coordinates), 3 - coordinates.length);
+  }
+
+  /**
+   * Projects a point one dimension down.
+   *
+   * @param coordinates The coordinates of the point, relative to the center.
+   * @returns The coordinates of the projected point.
+   */
+  private projectStep(coordinates: number[]): number[] {
+    const dim = coordinates.length;
+    const eye = this.getEye(dim);
+    const dist = eye.magnitude();
+    const last = dim - 1;
+    let coords = coordinates;
+
+    // Rotates the space so that the eye lies on the last axis. We do this via
+    // a Householder reflection, followed by a reflection on the first axis.
+    const u = eye.scale(1 / dist).coordinates;
+    u[last] -= 1;
+    const uSq = new Point(u).sqMagnitude();
+
+    if (uSq > 1e-18) {
+      const k = (2 * new Point(u).dot(new Point(coords))) / uSq;
+      coords = coords.map((x, i) => x - k * u[i]);
+      coords[0] = -coords[0];
+    }
+
+    const res = coords.slice(0, last);
+    if (this.type === ProjectionType.Orthographic) return res;
+
+    const depth = dist - coords[last];
+    if (depth < 1e-9)
+      throw new Error("A point lies at or behind the projection's eye!");
+
+    for (let i = 0; i < last; i++) res[i] *= dist / depth;
+    return res;
+  }
+
+  /**
+   * Gets the eye of the projection step from a given space.
+   *
+   * @param dim The number of dimensions of the eye's space.
+   * @returns The eye point, relative to the center.
+   */
+  private getEye(dim: number): Point {
+    const eye = this.eyes[dim];
+    if (eye) return eye;
+
+    const res = new Point(dim);
+    res.coordinates[dim - 1] = this.eyeDistance * this.radius;
+    return res;
+  }
+}
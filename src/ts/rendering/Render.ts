@@ -1,7 +1,8 @@
 import Point from "../geometry/Point";
 import * as Space from "../geometry/Space";
-import { PolytopeB } from "../polytopes/types";
-import Scene from "./Scene";
+import { ElementList, PolytopeB, PolytopeC } from "../polytopes/types";
+import type Scene from "./Scene";
+import type Rotation from "./Rotation";
 import LinkedListNode from "../Data structures/LinkedListNode";
 import SweeplineEdge from "../Data structures/SweeplineEdge";
 import AvlTree from "../Data structures/avl-tree";
@@ -35,6 +36,35 @@ export default abstract class Render {
    * collinear edges, concurrent edges, etc.)
    */
   static to(P: PolytopeB, scene: Scene): void {
+    const Q = Render.rotate(P.toPolytopeC(), scene.rotation);
+    if (!Q.elementList[0] || !Q.elementList[1] || !Q.elementList[2]) return;
+
+    // Centers the projection into 3D on the polytope.
+    scene.projection.fit(Q.elementList[0]);
+
+    // For each face:
+    for (let i = 0; i < Q.elementList[2].length; i++) {
+      const face = Render.polygons(Q, i);
+
+      // The rest of the rendering shenanigans are handled by the Scene class.
+      if (face) scene.add(face);
+    }
+
+    scene.polytopes.push(P);
+  }
+
+  /**
+   * Splits a face of a polytope into the simple polygons that compose it, via
+   * the Bentley-Ottmann algorithm. Also stores the coordinates the polygons
+   * should be triangulated on in [[`Global.index0`]] and
+   * [[`Global.index1`]].
+   *
+   * @param Q The polytope the face belongs to.
+   * @param i The index of the face.
+   * @returns The simple polygons composing the face, as ordered sets of
+   * vertices, or `null` if the face is degenerate or couldn't be split.
+   */
+  static polygons(Q: PolytopeC, i: number): Point[][] | null {
     const SL = new AvlTree(Render.SLSort);
 
     function debug(): void {
@@ -42,177 +72,184 @@ export default abstract class Render {
       console.log(SL.toString());
     }
 
-    const Q = P.toPolytopeC().recenter();
-    if (!Q.elementList[0] || !Q.elementList[1] || !Q.elementList[2]) return;
-
-    // For each face:
-    faceLoop: for (let i = 0; i < Q.elementList[2].length; i++) {
-      // Let's not even bother with digons and monogons.
-      if (Q.elementList[2][i].length < 3) continue;
-      /*	if(P.elementList[2][i].length === 3) {
+    // Let's not even bother with digons and monogons.
+    if ((Q.elementList[2] as number[][])[i].length < 3) return null;
+    /*	if(P.elementList[2][i].length === 3) {
 				//All triangles are convex, so cut to the chase and render it directly.
 			} */
 
-      // Enumerates the vertices in order.
-      const cycle = Q.faceToVertices(i);
+    // Enumerates the vertices in order.
+    const vertices = Q.elementList[0] as Point[];
+    const cycle = Q.faceToVertices(i);
 
-      // Makes a doubly-linked list vertexDLL for the polygon's vertices and the
-      // new vertices created.
-      // node0 is always the "next" vertex.
-      // Every vertex should *always* have two adjacent vertices.
-      Render.vertexDLL = [new LinkedListNode(Q.elementList[0][cycle[0]])];
+    // Makes a doubly-linked list vertexDLL for the polygon's vertices and the
+    // new vertices created.
+    // node0 is always the "next" vertex.
+    // Every vertex should *always* have two adjacent vertices.
+    Render.vertexDLL = [new LinkedListNode(vertices[cycle[0]])];
 
-      for (let j = 0; j < cycle.length - 1; j++) {
-        Render.vertexDLL[j + 1] = new LinkedListNode(
-          Q.elementList[0][cycle[j + 1]]
-        );
-        Render.vertexDLL[j].linkToNext(Render.vertexDLL[j + 1]);
-      }
-      Render.vertexDLL[Render.vertexDLL.length - 1].linkToNext(
-        Render.vertexDLL[0]
-      );
-      const v0 = Render.vertexDLL[0].value;
-
-      // Tries to find two non-equal points. If all points are the same, doesn't
-      // render the face.
-      let a = 1;
-      while (Point.equal(v0, Render.vertexDLL[a].value))
-        if (++a >= Render.vertexDLL.length) continue faceLoop;
-
-      const va = Render.vertexDLL[a].value;
-
-      // Tries to find three non-collinear points. If all points are collinear,
-      // doesn't render the face.
-      let b = a === 1 ? 2 : 1;
-      while (Space.collinear(v0, va, Render.vertexDLL[b].value)) {
-        if (++b >= Render.vertexDLL.length) continue faceLoop;
-      }
-      const vb = Render.vertexDLL[b].value;
-
-      // Calculates the coordinates such that the projection of our three
-      // non-collinear points onto their 2D plane has the highest area.
-      // Uses the shoelace formula.
-      // Stores such coordinates' indices in Global.index0, Global.index1.
-      // That way, they become global variables that can be used elsewhere.
-      let maxArea = 0;
-      let area: number;
-
-      Global.index0 = 0;
-      Global.index1 = 1;
-      for (let j = 0; j < v0.dimensions(); j++)
-        for (let k = j + 1; k < v0.dimensions(); k++)
-          if ((area = Space.area(v0, va, vb, j, k)) > maxArea) {
-            Global.index0 = j;
-            Global.index1 = k;
-            maxArea = area;
-          }
+    for (let j = 0; j < cycle.length - 1; j++) {
+      Render.vertexDLL[j + 1] = new LinkedListNode(vertices[cycle[j + 1]]);
+      Render.vertexDLL[j].linkToNext(Render.vertexDLL[j + 1]);
+    }
+    Render.vertexDLL[Render.vertexDLL.length - 1].linkToNext(
+      Render.vertexDLL[0]
+    );
+    const v0 = Render.vertexDLL[0].value;
 
-      // Event queue for Bentley-Ottmann, stores vertices.
-      // Sorts EQ by lexicographic order of the vertices.
-      Render.EQ = new AvlTree<LinkedListNode<Point>>(Render.order);
-      for (let j = 0; j < Render.vertexDLL.length; j++)
-        Render.EQ.insert(Render.vertexDLL[j]);
-
-      // Bentley-Ottmann:
-      while (!Render.EQ.isEmpty()) {
-        const min = Render.EQ.findMinimum();
-        if (!min) throw new Error("EQ minimum not found!");
-        Render.Event = min; // The next "event" in the event queue.
-        Render.EQ.delete(Render.Event);
-        // If the code worked perfectly, we could skip this expensive check.
-        /*
+    // Tries to find two non-equal points. If all points are the same, doesn't
+    // render the face.
+    let a = 1;
+    while (Point.equal(v0, Render.vertexDLL[a].value))
+      if (++a >= Render.vertexDLL.length) return null;
+
+    const va = Render.vertexDLL[a].value;
+
+    // Tries to find three non-collinear points. If all points are collinear,
+    // doesn't render the face.
+    let b = a === 1 ? 2 : 1;
+    while (Space.collinear(v0, va, Render.vertexDLL[b].value)) {
+      if (++b >= Render.vertexDLL.length) return null;
+    }
+    const vb = Render.vertexDLL[b].value;
+
+    // Calculates the coordinates such that the projection of our three
+    // non-collinear points onto their 2D plane has the highest area.
+    // Uses the shoelace formula.
+    // Stores such coordinates' indices in Global.index0, Global.index1.
+    // That way, they become global variables that can be used elsewhere.
+    let maxArea = 0;
+    let area: number;
+
+    Global.index0 = 0;
+    Global.index1 = 1;
+    for (let j = 0; j < v0.dimensions(); j++)
+      for (let k = j + 1; k < v0.dimensions(); k++)
+        if ((area = Space.area(v0, va, vb, j, k)) > maxArea) {
+          Global.index0 = j;
+          Global.index1 = k;
+          maxArea = area;
+        }
+
+    // Event queue for Bentley-Ottmann, stores vertices.
+    // Sorts EQ by lexicographic order of the vertices.
+    Render.EQ = new AvlTree<LinkedListNode<Point>>(Render.order);
+    for (let j = 0; j < Render.vertexDLL.length; j++)
+      Render.EQ.insert(Render.vertexDLL[j]);
+
+    // Bentley-Ottmann:
+    while (!Render.EQ.isEmpty()) {
+      const min = Render.EQ.findMinimum();
+      if (!min) throw new Error("EQ minimum not found!");
+      Render.Event = min; // The next "event" in the event queue.
+      Render.EQ.delete(Render.Event);
+      // If the code worked perfectly, we could skip this expensive check.
+      /*
 				if(!SL.checkSorted()) {
 					alert("Something went wrong!");
 					//return; //Uncomment if you want the code not to throw an exception.
 				}
 				*/
-        // Runs the code on both edges adjacent to E's vertex.
-        for (let j = 0; j <= 1; j++) {
-          const nodeJ = Render.Event.getNode(j);
-          if (!nodeJ) throw new Error("Doubly linked list broken!");
-
-          const ord =
-            Render.Event.value.coordinates[Global.index0] -
-            nodeJ.value.coordinates[Global.index0];
-
-          // Vertex E is a left endpoint of the edge:
-          if (ord < -Global.epsilon) {
-            const edge = new SweeplineEdge(Render.Event, j as 0 | 1);
-            const node = SL.insert(edge);
-            if (!node) {
-              console.log(
-                "SL insertion failed! This isn't supposed to happen!"
-              );
-              console.log(`Edge searched for: ${edge.toString()}`);
-              console.log("Debug stuff:");
-              debug();
-              return;
-            }
-            const prevNode = SL.prev(node);
-            const nextNode = SL.next(node);
-
-            // Checks for an intersection with the edge below edgeE.
-            if (prevNode) Render.divide(edge, prevNode.key);
-            // Checks for an intersection with the edge above edgeE.
-            if (nextNode) Render.divide(edge, nextNode.key);
+      // Runs the code on both edges adjacent to E's vertex.
+      for (let j = 0; j <= 1; j++) {
+        const nodeJ = Render.Event.getNode(j);
+        if (!nodeJ) throw new Error("Doubly linked list broken!");
+
+        const ord =
+          Render.Event.value.coordinates[Global.index0] -
+          nodeJ.value.coordinates[Global.index0];
+
+        // Vertex E is a left endpoint of the edge:
+        if (ord < -Global.epsilon) {
+          const edge = new SweeplineEdge(Render.Event, j as 0 | 1);
+          const node = SL.insert(edge);
+          if (!node) {
+            console.log("SL insertion failed! This isn't supposed to happen!");
+            console.log(`Edge searched for: ${edge.toString()}`);
+            console.log("Debug stuff:");
+            debug();
+            return null;
           }
-          // Vertex E is a right endpoint of the edge:
-          else if (ord > Global.epsilon) {
-            const edge = new SweeplineEdge(nodeJ, (1 - j) as 0 | 1);
-
-            // Deletes edge from the sweep line.
-            const node = SL.getNode(edge);
-            if (!node) {
-              console.log(
-                "SL retrieval failed! This isn't supposed to happen!"
-              );
-              console.log(`Edge searched for: ${edge.toString()}`);
-              console.log("Debug stuff:");
-              debug();
-              return;
-            }
-            const prevNode = SL.prev(node);
-            const nextNode = SL.next(node);
-
-            // Checks for an intersection between the edges below and above
-            // edgeE.
-            if (prevNode && nextNode) Render.divide(prevNode.key, nextNode.key);
-            SL.delete(edge);
+          const prevNode = SL.prev(node);
+          const nextNode = SL.next(node);
+
+          // Checks for an intersection with the edge below edgeE.
+          if (prevNode) Render.divide(edge, prevNode.key);
+          // Checks for an intersection with the edge above edgeE.
+          if (nextNode) Render.divide(edge, nextNode.key);
+        }
+        // Vertex E is a right endpoint of the edge:
+        else if (ord > Global.epsilon) {
+          const edge = new SweeplineEdge(nodeJ, (1 - j) as 0 | 1);
+
+          // Deletes edge from the sweep line.
+          const node = SL.getNode(edge);
+          if (!node) {
+            console.log("SL retrieval failed! This isn't supposed to happen!");
+            console.log(`Edge searched for: ${edge.toString()}`);
+            console.log("Debug stuff:");
+            debug();
+            return null;
           }
-          // The edge is perpendicular to the first coordinate's axis:
-          // Runs only once per such an edge.
-          else if (
-            Render.Event.value.coordinates[Global.index1] >
-            nodeJ.value.coordinates[Global.index1]
-          ) {
-            const edge = new SweeplineEdge(Render.Event, j as 0 | 1);
-
-            // I really should only check intersections with segments at the
-            // "correct height".
-            let node = SL.findMinimumNode();
-            while (node) {
-              Render.divide(edge, node.key);
-              node = SL.next(node);
-            }
+          const prevNode = SL.prev(node);
+          const nextNode = SL.next(node);
+
+          // Checks for an intersection between the edges below and above
+          // edgeE.
+          if (prevNode && nextNode) Render.divide(prevNode.key, nextNode.key);
+          SL.delete(edge);
+        }
+        // The edge is perpendicular to the first coordinate's axis:
+        // Runs only once per such an edge.
+        else if (
+          Render.Event.value.coordinates[Global.index1] >
+          nodeJ.value.coordinates[Global.index1]
+        ) {
+          const edge = new SweeplineEdge(Render.Event, j as 0 | 1);
+
+          // I really should only check intersections with segments at the
+          // "correct height".
+          let node = SL.findMinimumNode();
+          while (node) {
+            Render.divide(edge, node.key);
+            node = SL.next(node);
           }
         }
       }
+    }
 
-      // Polygons composing a single face as ordered sets of vertices.
-      const face: Point[][] = [];
+    // Polygons composing a single face as ordered sets of vertices.
+    const face: Point[][] = [];
 
-      // Retrieves polygonal paths from edges.
-      for (let j = 0; j < Render.vertexDLL.length; j++) {
-        if (!Render.vertexDLL[j].traversed) {
-          face.push(Render.vertexDLL[j].getCycle());
-        }
+    // Retrieves polygonal paths from edges.
+    for (let j = 0; j < Render.vertexDLL.length; j++) {
+      if (!Render.vertexDLL[j].traversed) {
+        face.push(Render.vertexDLL[j].getCycle());
       }
-
-      // The rest of the rendering shenanigans are handled by the Scene class.
-      scene.add(face);
     }
 
-    scene.polytopes.push(P);
+    return face;
+  }
+
+  /**
+   * Rotates a polytope in its own space, without modifying it. Resets the
+   * rotation if the polytope lives in another number of dimensions.
+   *
+   * @param Q The polytope to rotate.
+   * @param rotation The rotation to apply.
+   * @returns A polytope with the same elements and rotated vertices.
+   */
+  static rotate(Q: PolytopeC, rotation: Rotation): PolytopeC {
+    const vertices = Q.elementList[0];
+    if (!vertices) return Q;
+
+    rotation.setDimensions(Q.spaceDimensions);
+    if (rotation.isIdentity()) return Q;
+
+    const elementList = Q.elementList.slice() as ElementList;
+    elementList[0] = vertices.map((v) => rotation.apply(v));
+
+    return new PolytopeC(elementList, Q.construction);
   }
 
   /**
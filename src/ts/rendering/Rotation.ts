@@ -0,0 +1,133 @@
+import Point from "../geometry/Point";
+
+/**
+ * Stores a rotation of a polytope in its own space, as an orthogonal matrix.
+ * Rotations are built up from rotations in coordinate planes, such as the XW,
+ * YW, or ZW planes of 4D space.
+ *
+ * @category Rendering
+ */
+export default class Rotation {
+  /** The number of dimensions of the rotated space. */
+  dimensions: number;
+
+  /** The rotation matrix, stored as an array of rows. */
+  matrix: number[][] = [];
+
+  /**
+   * Constructor for the Rotation class. Initializes the identity rotation.
+   *
+   * @param dimensions The number of dimensions of the rotated space.
+   */
+  constructor(dimensions: number) {
+    this.dimensions = dimensions;
+    this.reset();
+  }
+
+  /** Resets the rotation to the identity. */
+  reset(): void {
+    this.matrix = [];
+
+    for (let i = 0; i < this.dimensions; i++) {
+      this.matrix.push([]);
+      for (let j = 0; j < this.dimensions; j++)
+        this.matrix[i].push(i === j ? 1 : 0);
+    }
+  }
+
+  /**
+   * Changes the number of dimensions of the rotated space. Resets the rotation
+   * if it actually changes.
+   *
+   * @param dimensions The new number of dimensions.
+   */
+  setDimensions(dimensions: number): void {
+    if (dimensions === this.dimensions) return;
+
+    this.dimensions = dimensions;
+    this.reset();
+  }
+
+  /**
+   * Rotates by a given angle in the plane of two coordinate axes. The
+   * rotation is composed after the current one.
+   *
+   * @param i The index of the first axis of the plane.
+   * @param j The index of the second axis of the plane.
+   * @param angle The angle of the rotation, in radians.
+   * @throws Will throw an error if the plane isn't valid.
+   */
+  rotate(i: number, j: number, angle: number): void {
+    if (i === j || Math.max(i, j) >= this.dimensions || Math.min(i, j) < 0)
+      throw new Error("Invalid rotation plane!");
+
+    const c = Math.cos(angle),
+      s = Math.sin(angle);
+    const rowI = this.matrix[i],
+      rowJ = this.matrix[j];
+
+    for (let k = 0; k < this.dimensions; k++) {
+      const a = rowI[k],
+        b = rowJ[k];
+      rowI[k] = c * a - s * b;
+      rowJ[k] = s * a + c * b;
+    }
+
+    this.orthonormalize();
+  }
+
+  /**
+   * Applies the rotation to a point.
+   *
+   * @param P The point to rotate.
+   * @returns The rotated point.
+   */
+  apply(P: Point): Point {
+    const res: number[] = [];
+
+    for (let i = 0; i < this.dimensions; i++) {
+      let x = 0;
+      for (let j = 0; j < this.dimensions; j++)
+        x += this.matrix[i][j] * P.coordinates[j];
+      res.push(x);
+    }
+
+    return new Point(res);
+  }
+
+  /**
+   * Checks whether the rotation is the identity.
+   *
+   * @returns Whether the rotation does nothing.
+   */
+  isIdentity(): boolean {
+    for (let i = 0; i < this.dimensions; i++)
+      for (let j = 0; j < this.dimensions; j++)
+        if (Math.abs(this.matrix[i][j] - (i === j ? 1 : 0)) > 1e-12)
+          return false;
+
+    return true;
+  }
+
+  /**
+   * Applies the Gram–Schmidt process to the rows of the matrix, so that
+   * floating point errors don't build up after many small rotations.
+   */
+  private orthonormalize(): void {
+    for (let i = 0; i < this.dimensions; i++) {
+      const row = this.matrix[i];
+
+      for (let j = 0; j < i; j++) {
+        const prev = this.matrix[j];
+        let dot = 0;
+        for (let k = 0; k < this.dimensions; k++) dot += row[k] * prev[k];
+        for (let k = 0; k < this.dimensions; k++) row[k] -= dot * prev[k];
+      }
+
+      let norm = 0;
+      for (let k = 0; k < this.dimensions; k++) norm += row[k] * row[k];
+      norm = Math.sqrt(norm);
+      for (let k = 0; k < this.dimensions; k++) row[k] /= norm;
+    }
+  }
+}
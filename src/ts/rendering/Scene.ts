@@ -4,9 +4,24 @@ import Global from "../global";
 import { PolytopeB } from "../polytopes/types";
 import TrackballControls from "./trackball-controls";
 import ShapeBufferGeometry_ from "./shapeBufferGeometryMock";
+import Projection from "./Projection";
+import Rotation from "./Rotation";
+import Render from "./Render";
 
 type Writeable<T> = { -readonly [P in keyof T]: T[P] };
 
+/** A rotation in a coordinate plane that's applied continuously over time. */
+interface RotationAnimation {
+  /** The index of the first axis of the plane. */
+  i: number;
+
+  /** The index of the second axis of the plane. */
+  j: number;
+
+  /** The angular speed of the rotation, in radians per second. */
+  speed: number;
+}
+
 /**
  * Wrapper for a scene, an object that stores and shows a polytope.
  *
@@ -39,6 +54,35 @@ export default class Scene {
   });
   controls: TrackballControls;
 
+  /** Sends the rendered polytopes' points into 3D space. */
+  projection = new Projection();
+
+  /** Rotates the rendered polytopes in their own space, before they're
+   * projected. */
+  readonly rotation = new Rotation(3);
+
+  /**
+   * The axis that plays the role of W when dragging with a modifier key. A
+   * Shift-drag rotates in the XW and YW planes, a Ctrl-drag rotates in the ZW
+   * plane, and in the plane of W and the axis after it, if there's one.
+   */
+  rotationAxis = 3;
+
+  /** Radians of rotation per pixel dragged. */
+  rotationSpeed = 0.01;
+
+  /** The rotations that are applied every frame. */
+  private animations: RotationAnimation[] = [];
+
+  /** Whether the rotation changed since the polytopes were last rendered. */
+  private rotationChanged = false;
+
+  /** The position of the pointer during a rotation drag. */
+  private dragPosition: { x: number; y: number } | null = null;
+
+  /** Keeps track of the time between frames. */
+  private readonly clock = new THREE.Clock();
+
   /** Constructor for Scene class. */
   constructor() {
     // Sets up renderer.
@@ -60,6 +104,139 @@ export default class Scene {
     this.controls.target.set(0, 0, 0);
     this.controls.rotateSpeed = 4;
     this.controls.update();
+
+    // Sets up the rotation controls.
+    this.addRotationListeners();
+  }
+
+  /**
+   * Makes the modifier-key drags rotate the polytopes in their own space,
+   * instead of moving the camera.
+   */
+  private addRotationListeners(): void {
+    const domElement = this.renderer.domElement;
+
+    // The camera controls shouldn't react while a modifier key is held.
+    const toggleControls = (event: KeyboardEvent) => {
+      this.controls.enabled = !(event.shiftKey || event.ctrlKey);
+    };
+    globalThis.addEventListener("keydown", toggleControls, false);
+    globalThis.addEventListener("keyup", toggleControls, false);
+
+    domElement.addEventListener(
+      "pointerdown",
+      (event: PointerEvent) => {
+        if (!event.shiftKey && !event.ctrlKey) return;
+        this.dragPosition = { x: event.pageX, y: event.pageY };
+      },
+      false
+    );
+
+    domElement.ownerDocument.addEventListener(
+      "pointermove",
+      (event: PointerEvent) => {
+        if (!this.dragPosition) return;
+
+        const dx = (event.pageX - this.dragPosition.x) * this.rotationSpeed;
+        const dy = (event.pageY - this.dragPosition.y) * this.rotationSpeed;
+        this.dragPosition = { x: event.pageX, y: event.pageY };
+
+        const w = this.rotationAxis;
+        if (w >= this.rotation.dimensions) return;
+
+        if (event.ctrlKey) {
+          this.rotate(2, w, dx);
+          if (w + 1 < this.rotation.dimensions) this.rotate(w, w + 1, dy);
+        } else {
+          this.rotate(0, w, dx);
+          this.rotate(1, w, dy);
+        }
+      },
+      false
+    );
+
+    domElement.ownerDocument.addEventListener(
+      "pointerup",
+      () => {
+        this.dragPosition = null;
+      },
+      false
+    );
+  }
+
+  /**
+   * Rotates the polytopes on screen in a coordinate plane of their space.
+   *
+   * @param i The index of the first axis of the plane.
+   * @param j The index of the second axis of the plane.
+   * @param angle The angle of the rotation, in radians.
+   */
+  rotate(i: number, j: number, angle: number): void {
+    if (!angle) return;
+
+    this.rotation.rotate(i, j, angle);
+    this.rotationChanged = true;
+  }
+
+  /**
+   * Starts rotating the polytopes on screen continuously in a coordinate
+   * plane. Replaces any previous animation in the same plane.
+   *
+   * @param i The index of the first axis of the plane.
+   * @param j The index of the second axis of the plane.
+   * @param speed The angular speed, in radians per second.
+   */
+  animate(i: number, j: number, speed: number): void {
+    this.stopAnimation(i, j);
+    this.animations.push({ i: i, j: j, speed: speed });
+  }
+
+  /**
+   * Stops the continuous rotation in a coordinate plane, or all of them if no
+   * plane is given.
+   *
+   * @param i The index of the first axis of the plane.
+   * @param j The index of the second axis of the plane.
+   */
+  stopAnimation(i?: number, j?: number): void {
+    this.animations = this.animations.filter(
+      (animation) =>
+        i !== undefined &&
+        j !== undefined &&
+        !(animation.i === i && animation.j === j) &&
+        !(animation.i === j && animation.j === i)
+    );
+  }
+
+  /** Resets the rotation of the polytopes on screen. */
+  resetRotation(): void {
+    this.rotation.reset();
+    this.rotationChanged = true;
+  }
+
+  /**
+   * Advances the animations, and renders the polytopes again if their rotation
+   * changed. Meant to be called once every frame.
+   */
+  update(): void {
+    const delta = this.clock.getDelta();
+
+    for (let k = 0; k < this.animations.length; k++) {
+      const animation = this.animations[k];
+      if (Math.max(animation.i, animation.j) < this.rotation.dimensions)
+        this.rotate(animation.i, animation.j, animation.speed * delta);
+    }
+
+    if (this.rotationChanged) this.redraw();
+  }
+
+  /** Clears the scene and renders all of its polytopes again. */
+  redraw(): void {
+    const polytopes = this.polytopes;
+    this.clear();
+
+    for (let i = 0; i < polytopes.length; i++) Render.to(polytopes[i], this);
+    this.rotationChanged = false;
   }
 
   /**
@@ -74,29 +251,19 @@ export default class Scene {
 
   /** Adds a face to the scene.
    * The face is an array of simple polygons that together, form the face.
-   * This code figures out which of these faces need to be rendered,
-   * and transforms the points into 3D. (or at least will when it's fully
-   * functional).
+   * The polygon is triangulated on the coordinates [[`Global.index0`]] and
+   * [[`Global.index1`]] of the original space, after which its vertices are
+   * sent into 3D through the scene's [[`projection`]].
    *
-   * @todo Make the code fully functional.
+   * @todo Render every polygon in the face, not just the first one.
    */
   add(face: Point[][]): void {
     // A simple polygon of which the face is composed (temporary rendering).
     const _poly = face[0];
-    // The face projected into 3D, as an array of THREE.Vector3s.
+    // The face projected onto two of its coordinates, as an array of
+    // THREE.Vector2s.
     const poly2D: THREE.Vector2[] = [];
 
-    // Here's where I'm supposed to project the face into 3D via the projection
-    // matrix.
-
-    // These are the analogs of Global.index0 and Global.index1 for the projected
-    // face. (at the moment, I just use the old values, since I'm not doing any
-    // projection yet)
-    // Global.index0 = something; Global.index1 = something;
-
-    // The last coordinate.
-    Global.index2 = 3 - Global.index0 - Global.index1;
-
     for (let i = 0; i < _poly.length; i++) {
       poly2D.push(
         new THREE.Vector2(
@@ -113,18 +280,14 @@ export default class Scene {
 			shape.holes.push(new THREE.Shape(hole));*/
 
     const geometry = new ShapeBufferGeometry_(shape);
-    // Reorders vertices and extrudes into 3D appropriately.
-    let a: number[];
 
+    // Places the vertices at their projected positions. Projections don't
+    // change the combinatorics of the triangulation, so it remains valid.
     for (let i = 0; i < poly2D.length; i++) {
-      a = [];
-      a[Global.index0] = geometry.attributes.position.array[3 * i];
-      a[Global.index1] = geometry.attributes.position.array[3 * i + 1];
-
-      if (Global.reversePolygon) {
-        a[Global.index2] =
-          _poly[_poly.length - i - 1].coordinates[Global.index2];
-      } else a[Global.index2] = _poly[i].coordinates[Global.index2];
+      const vertex = Global.reversePolygon
+        ? _poly[_poly.length - i - 1]
+        : _poly[i];
+      const a = this.projection.project(vertex).coordinates;
 
       // We modify some private variables, which is probably unreliable, but
       // gets the job done.
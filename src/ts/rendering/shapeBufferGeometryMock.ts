@@ -126,7 +126,7 @@ export default class ShapeBufferGeometry_ extends THREE.BufferGeometry {
 
 function toJSON(
   shapes: THREE.Shape | THREE.Shape[],
-  data: { shapes: THREE.Shape[] }
+  data: { shapes: string[] }
 ): unknown {
   data.shapes = [];
 